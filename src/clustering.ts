@@ -0,0 +1,98 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+"use strict";
+
+export interface EventCluster<T> {
+    key: string;
+    // horizontal centre of the cluster bubble
+    x: number;
+    events: T[];
+}
+
+export interface ClusterOptions {
+    // events whose anchors fall within this many pixels of the first member join its cluster
+    width: number;
+    // smallest group that is merged into a cluster bubble
+    minEvents: number;
+}
+
+export const defaultClusterOptions: ClusterOptions = {
+    width: 90,
+    minEvents: 4
+};
+
+export interface ClusterResult<T> {
+    events: T[];
+    clusters: EventCluster<T>[];
+}
+
+/**
+ * Merges runs of events whose anchors are closer together than the cluster width into
+ * cluster bubbles. Groups smaller than `minEvents`, and clusters whose key is in
+ * `expanded`, are passed through as individual events.
+ */
+export function clusterEvents<T>(
+    items: T[],
+    xOf: (d: T) => number,
+    keyOf: (d: T) => string,
+    expanded: Set<string>,
+    options: ClusterOptions): ClusterResult<T> {
+
+    let result: ClusterResult<T> = { events: [], clusters: [] };
+    let sorted = items
+        .map(d => ({ d, x: xOf(d), key: keyOf(d) }))
+        .sort((a, b) => a.x - b.x || (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+
+    let flush = (group: { d: T, x: number, key: string }[]) => {
+        if (group.length === 0) {
+            return;
+        }
+        let key = 'cluster:' + group.length + ':' + group[0].key + ':' + group[group.length - 1].key;
+        if (group.length < options.minEvents || expanded.has(key)) {
+            group.forEach(g => result.events.push(g.d));
+        }
+        else {
+            result.clusters.push({
+                key: key,
+                x: (group[0].x + group[group.length - 1].x) / 2,
+                events: group.map(g => g.d)
+            });
+        }
+    };
+
+    let current: { d: T, x: number, key: string }[] = [];
+    sorted.forEach((item) => {
+        if (current.length > 0 && item.x - current[0].x > options.width) {
+            flush(current);
+            current = [];
+        }
+        current.push(item);
+    });
+    flush(current);
+
+    return result;
+}
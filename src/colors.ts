@@ -0,0 +1,182 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+"use strict";
+
+import * as d3 from 'd3';
+
+export interface ColorTriple {
+    dark: string;
+    light: string;
+    medium: string;
+}
+
+export const basePalette: ColorTriple[] = [{
+    dark: '#3F5003',
+    light: '#D0E987',
+    medium: '#AFD045'
+}, {
+    dark: '#252D48',
+    light: '#81909F',
+    medium: '#3B4D64'
+}, {
+    dark: '#8D4F0F',
+    light: '#D8A26D',
+    medium: '#C87825'
+}, {
+    dark: '#337779',
+    light: '#B2DFE0',
+    medium: '#6FCBCC'
+}, {
+    dark: '#003366',
+    light: '#66ffff',
+    medium: '#4791AE'
+}, {
+    dark: 'rgba(49, 27, 146,1)',
+    light: 'rgba(49, 27, 146,0.2)',
+    medium: 'rgba(49, 27, 146,0.5)'
+}, {
+    dark: 'rgba(245, 127, 23,1)',
+    light: 'rgba(245, 127, 23,0.2)',
+    medium: 'rgba(245, 127, 23,0.5)'
+}, {
+    dark: 'rgba(183, 28, 28,1)',
+    light: 'rgba(183, 28, 28,0.2)',
+    medium: 'rgba(183, 28, 28,0.5)'
+}, {
+    dark: 'rgba(136, 14, 79,1)',
+    light: 'rgba(136, 14, 79,0.2)',
+    medium: 'rgba(136, 14, 79,0.5)'
+}, {
+    dark: 'rgba(27, 94, 32,1)',
+    light: 'rgba(27, 94, 32,0.2)',
+    medium: 'rgba(27, 94, 32,0.5)'
+}, {
+    dark: 'rgba(255, 0, 0,1)',
+    light: 'rgba(255, 0, 0,0.2)',
+    medium: 'rgba(255, 0, 0,0.5)'
+}, {
+    dark: 'rgba(0, 0, 255,1)',
+    light: 'rgba(0, 0, 255,0.2)',
+    medium: 'rgba(0, 0, 255,0.5)'
+}, {
+    dark: 'rgba(0, 255, 0,1)',
+    light: 'rgba(0, 255, 0,0.2)',
+    medium: 'rgba(0, 255, 0,0.5)'
+}, {
+    dark: 'rgba(94, 89, 27,1)',
+    light: 'rgba(94, 89, 27,0.2)',
+    medium: 'rgba(94, 89, 27,0.5)'
+}, {
+    dark: 'rgba(27, 94, 91,1)',
+    light: 'rgba(27, 94, 91,0.2)',
+    medium: 'rgba(27, 94, 91,0.5)'
+}, {
+    dark: 'rgba(11, 101, 153,1)',
+    light: 'rgba(11, 101, 153,0.2)',
+    medium: 'rgba(11, 101, 153,0.5)'
+}, {
+    dark: 'rgba(11, 45, 153,1)',
+    light: 'rgba(11, 45, 153,0.2)',
+    medium: 'rgba(11, 45, 153,0.5)'
+}, {
+    dark: 'rgba(114, 11, 153,1)',
+    light: 'rgba(114, 11, 153,0.2)',
+    medium: 'rgba(114, 11, 153,0.5)'
+}, {
+    dark: 'rgba(153, 11, 134,1)',
+    light: 'rgba(153, 11, 134,0.2)',
+    medium: 'rgba(153, 11, 134,0.5)'
+}, {
+    dark: 'rgba(249, 5, 134,1)',
+    light: 'rgba(249, 5, 134,0.2)',
+    medium: 'rgba(249, 5, 134,0.5)'
+}];
+
+/**
+ * Builds a dark/light/medium triple from a single colour, using the same opacities as
+ * the translucent entries of the base palette.
+ */
+export function colorTripleFrom(color: string): ColorTriple {
+    let rgb = d3.rgb(color);
+    let withOpacity = (opacity: number) => 'rgba(' + rgb.r + ', ' + rgb.g + ', ' + rgb.b + ',' + opacity + ')';
+    return {
+        dark: withOpacity(1),
+        light: withOpacity(0.2),
+        medium: withOpacity(0.5)
+    };
+}
+
+/**
+ * Returns the palette entry at the given index. Indices past the base palette get a
+ * generated colour, spreading the hues by the golden angle so neighbours stay distinct.
+ */
+export function getPaletteColor(index: number): ColorTriple {
+    if (index < basePalette.length) {
+        return basePalette[index];
+    }
+    let generated = index - basePalette.length;
+    let hsl = d3.hsl((generated * 137.508) % 360, 0.65, 0.35 + (generated % 3) * 0.08);
+    return colorTripleFrom(hsl.toString());
+}
+
+/**
+ * Assigns a palette colour to every key. The starting slot is derived from a hash of
+ * the key rather than from the order the keys appear in, so a title keeps its colour
+ * across report pages; colliding keys move on to the next free slot.
+ */
+export function assignPaletteColors(keys: string[]): Map<string, ColorTriple> {
+    let result = new Map<string, ColorTriple>();
+    let used = new Set<number>();
+    keys.slice().sort().forEach((key) => {
+        let start = hashKey(key) % basePalette.length;
+        let index = -1;
+        for (let step = 0; step < basePalette.length; step++) {
+            let candidate = (start + step) % basePalette.length;
+            if (!used.has(candidate)) {
+                index = candidate;
+                break;
+            }
+        }
+        if (index === -1) {
+            index = basePalette.length;
+            while (used.has(index)) {
+                index++;
+            }
+        }
+        used.add(index);
+        result.set(key, getPaletteColor(index));
+    });
+    return result;
+}
+
+function hashKey(key: string): number {
+    let hash = 5381;
+    for (let i = 0; i < key.length; i++) {
+        hash = ((hash << 5) + hash + key.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+}
@@ -0,0 +1,228 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+
+"use strict";
+
+import * as d3 from 'd3';
+
+export interface Dependency<T> {
+    key: string;
+    from: T;
+    to: T;
+    // true when the dependent event starts before its predecessor ends
+    violated: boolean;
+}
+
+// a point given along (t) and across (c) the time axis
+export interface AxisPoint {
+    t: number;
+    c: number;
+}
+
+// area an arrow should not cross, such as an event glyph
+export interface Obstacle {
+    t: number;
+    c: number;
+    rt: number;
+    rc: number;
+}
+
+// the obstacles of one render sorted along the axis, see indexObstacles
+export interface ObstacleIndex {
+    sorted: Obstacle[];
+    // largest reach of an obstacle along the axis, by which every lookup is widened
+    maxRt: number;
+}
+
+// offsets tried, in order, to bend an arrow around the obstacles in its way
+const bends = [0, -40, 40, -80, 80, -120, 120, -160, 160];
+const samples = 24;
+
+/**
+ * Splits a Depends On value into the IDs of the predecessors, which may be separated by
+ * commas, semicolons or line breaks.
+ */
+export function parseDependsOn(value: string): string[] {
+    return (value || '')
+        .split(/[,;\r\n]+/)
+        .map(id => id.trim())
+        .filter(id => !!id);
+}
+
+/**
+ * Links every item to the items it depends on. IDs that match no item, and items that
+ * depend on themselves, are ignored; when IDs repeat, the first item with the ID wins.
+ */
+export function resolveDependencies<T>(
+    items: T[],
+    idOf: (d: T) => string,
+    dependsOnOf: (d: T) => string[],
+    keyOf: (d: T) => string,
+    startOf: (d: T) => Date,
+    endOf: (d: T) => Date): Dependency<T>[] {
+
+    let byId = new Map<string, T>();
+    items.forEach((d) => {
+        let id = idOf(d);
+        if (id && !byId.has(id)) {
+            byId.set(id, d);
+        }
+    });
+
+    let dependencies: Dependency<T>[] = [];
+    let seen = new Set<string>();
+    items.forEach((to) => {
+        dependsOnOf(to).forEach((id) => {
+            let from = byId.get(id);
+            let key = from ? keyOf(from) + '>' + keyOf(to) : null;
+            if (!from || from === to || seen.has(key)) {
+                return;
+            }
+            seen.add(key);
+            dependencies.push({
+                key: key,
+                from: from,
+                to: to,
+                violated: startOf(to).getTime() < endOf(from).getTime()
+            });
+        });
+    });
+    return dependencies;
+}
+
+/**
+ * Returns the item with everything upstream of it, that it depends on directly or
+ * indirectly, and everything downstream of it, that depends on it.
+ */
+export function collectChain<T>(item: T, dependencies: Dependency<T>[]): Set<T> {
+    let chain = new Set<T>([item]);
+    let walk = (start: T, next: (dependency: Dependency<T>) => [T, T]) => {
+        let queue = [start];
+        let visited = new Set<T>([start]);
+        while (queue.length > 0) {
+            let current = queue.shift();
+            dependencies.forEach((dependency) => {
+                let [from, to] = next(dependency);
+                if (from === current && !visited.has(to)) {
+                    visited.add(to);
+                    chain.add(to);
+                    queue.push(to);
+                }
+            });
+        }
+    };
+    walk(item, dependency => [dependency.to, dependency.from]);
+    walk(item, dependency => [dependency.from, dependency.to]);
+    return chain;
+}
+
+/**
+ * Sorts the obstacles along the axis, once per render, so that routing an arrow only
+ * tests the obstacles within its reach instead of every event.
+ */
+export function indexObstacles(obstacles: Obstacle[]): ObstacleIndex {
+    return {
+        sorted: obstacles.slice().sort((a, b) => a.t - b.t),
+        maxRt: obstacles.reduce((max, obstacle) => Math.max(max, obstacle.rt), 0)
+    };
+}
+
+/**
+ * Returns the control points of a curve from `start` to `end` that leaves and enters
+ * along the time axis. The curve is bent across the axis, by increasing amounts, until
+ * it clears the obstacles other than the `ignored` ones; when no bend clears them all,
+ * the one crossing fewest wins.
+ */
+export function routeDependency(start: AxisPoint, end: AxisPoint, index: ObstacleIndex, ignored: Obstacle[]): AxisPoint[] {
+    let reach = Math.max(30, Math.abs(end.t - start.t) / 2);
+    // the bends only move the curve across the axis, so its reach along the axis is fixed
+    let ts = [start.t, start.t + reach, end.t - reach, end.t];
+    let obstacles = findObstacles(index, Math.min(...ts), Math.max(...ts))
+        .filter(obstacle => ignored.indexOf(obstacle) === -1);
+    let best: AxisPoint[] = null;
+    let bestHits = Infinity;
+    for (let bend of bends) {
+        let curve = [
+            start,
+            { t: start.t + reach, c: start.c + bend },
+            { t: end.t - reach, c: end.c + bend },
+            end
+        ];
+        let hits = countHits(curve, obstacles);
+        if (hits < bestHits) {
+            best = curve;
+            bestHits = hits;
+        }
+        if (hits === 0) {
+            break;
+        }
+    }
+    return best;
+}
+
+function findObstacles(index: ObstacleIndex, t0: number, t1: number): Obstacle[] {
+    let found: Obstacle[] = [];
+    let sorted = index.sorted;
+    let first = d3.bisector((obstacle: Obstacle) => obstacle.t).left(sorted, t0 - index.maxRt);
+    for (let i = first; i < sorted.length && sorted[i].t - index.maxRt <= t1; i++) {
+        if (sorted[i].t + sorted[i].rt >= t0 && sorted[i].t - sorted[i].rt <= t1) {
+            found.push(sorted[i]);
+        }
+    }
+    return found;
+}
+
+function countHits(curve: AxisPoint[], obstacles: Obstacle[]): number {
+    // the curve stays inside the box around its control points
+    let t0 = Math.min(...curve.map(p => p.t)), t1 = Math.max(...curve.map(p => p.t));
+    let c0 = Math.min(...curve.map(p => p.c)), c1 = Math.max(...curve.map(p => p.c));
+    let hits = 0;
+    obstacles.forEach((obstacle) => {
+        if (obstacle.t + obstacle.rt < t0 || obstacle.t - obstacle.rt > t1 || obstacle.c + obstacle.rc < c0 || obstacle.c - obstacle.rc > c1) {
+            return;
+        }
+        for (let i = 1; i < samples; i++) {
+            let p = pointOnCurve(curve, i / samples);
+            let dt = (p.t - obstacle.t) / obstacle.rt;
+            let dc = (p.c - obstacle.c) / obstacle.rc;
+            if (dt * dt + dc * dc < 1) {
+                hits++;
+                return;
+            }
+        }
+    });
+    return hits;
+}
+
+function pointOnCurve([p0, p1, p2, p3]: AxisPoint[], s: number): AxisPoint {
+    let u = 1 - s;
+    let a = u * u * u, b = 3 * u * u * s, c = 3 * u * s * s, d = s * s * s;
+    return {
+        t: a * p0.t + b * p1.t + c * p2.t + d * p3.t,
+        c: a * p0.c + b * p1.c + c * p2.c + d * p3.c
+    };
+}
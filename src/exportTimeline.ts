@@ -0,0 +1,433 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import IVisualHost = powerbi.extensibility.visual.IVisualHost;
+import * as d3 from 'd3';
+import { Localizer } from "./localization";
+
+export type ExportFormat = 'svg' | 'png' | 'csv';
+
+export const exportFormats: ExportFormat[] = ['svg', 'png', 'csv'];
+
+export interface ExportBanner {
+    image: HTMLImageElement;
+    position: 'header' | 'footer';
+    height: number;
+}
+
+export interface StandaloneSvg {
+    markup: string;
+    width: number;
+    height: number;
+}
+
+export interface ExportFile {
+    content: string;
+    fileName: string;
+    fileType: string;
+    description: string;
+}
+
+export interface CsvColumn<T> {
+    name: string;
+    value: (d: T) => string;
+}
+
+// available from API 4.5 onwards to visuals with the ExportContent privilege; it only accepts a few file types
+interface DownloadService {
+    exportVisualsContent(content: string, fileName: string, fileType: string, fileDescription: string): PromiseLike<any>;
+}
+
+interface DownloadingVisualHost extends IVisualHost {
+    downloadService?: DownloadService;
+}
+
+const hostFileTypes = ['txt', 'csv', 'json', 'tmplt', 'xml', 'pdf', 'xlsx'];
+
+// presentation properties copied from the style sheet onto every exported element
+const inlinedProperties = [
+    'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-dasharray', 'stroke-opacity', 'opacity', 'filter',
+    'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor', 'dominant-baseline', 'visibility'
+];
+
+/**
+ * Returns the formats the host can save. Only its download service can, as the sandbox
+ * of the visual blocks download links, and the service only accepts a few file types.
+ */
+export function getExportFormats(host: IVisualHost): ExportFormat[] {
+    let service = (<DownloadingVisualHost>host).downloadService;
+    return service ? exportFormats.filter(format => hostFileTypes.indexOf(format) !== -1) : [];
+}
+
+/**
+ * Shows a button per export format in the corner of the visual, or nothing when no
+ * format is given.
+ */
+export function renderExportMenu(
+    container: d3.Selection<HTMLElement, any, any, any>,
+    formats: ExportFormat[],
+    localizer: Localizer,
+    onExport: (format: ExportFormat) => void) {
+
+    container.selectAll('.export-menu').remove();
+    if (formats.length === 0) {
+        return;
+    }
+
+    container.append('div')
+        .attr('class', 'export-menu')
+        .attr('role', 'toolbar')
+        .attr('aria-label', localizer.getString('Visual_Export'))
+        .selectAll('button')
+        .data(formats)
+        .enter()
+        .append('button')
+        .attr('title', (format: ExportFormat) => localizer.getString('Visual_DownloadAs', format.toUpperCase()))
+        .text((format: ExportFormat) => format.toUpperCase())
+        .on('click', (format: ExportFormat) => {
+            d3.event.stopPropagation();
+            onExport(format);
+        });
+}
+
+/**
+ * Turns the chart, and the banner image when there is one, into an SVG document that
+ * renders on its own: styles from the style sheet are inlined, images and web fonts are
+ * embedded as data URIs where their server allows it, and the HTML event text is
+ * replaced by SVG text, which slide and drawing tools do not drop.
+ */
+export function buildStandaloneSvg(chart: SVGSVGElement, banner: ExportBanner, localizer: Localizer): Promise<StandaloneSvg> {
+    let ns = chart.namespaceURI;
+    let chartWidth = parseFloat(chart.getAttribute('width')) || chart.clientWidth;
+    let chartHeight = parseFloat(chart.getAttribute('height')) || chart.clientHeight;
+    let bannerHeight = banner ? banner.height : 0;
+    let width = Math.max(chartWidth, banner ? banner.image.clientWidth : 0);
+    let height = chartHeight + bannerHeight;
+
+    let clone = <SVGSVGElement>chart.cloneNode(true);
+    inlineStyles(chart, clone);
+    // controls only make sense in the live visual
+    Array.from(clone.querySelectorAll('.reset-view')).forEach(node => node.parentNode.removeChild(node));
+    clone.setAttribute('x', '0');
+    clone.setAttribute('y', String(banner && banner.position === 'header' ? bannerHeight : 0));
+
+    let root = <SVGSVGElement>document.createElementNS(ns, 'svg');
+    root.setAttribute('width', String(width));
+    root.setAttribute('height', String(height));
+    root.setAttribute('viewBox', '0 0 ' + width + ' ' + height);
+    root.appendChild(clone);
+    if (banner) {
+        root.appendChild(createBanner(ns, banner, width, banner.position === 'header' ? 0 : chartHeight));
+    }
+
+    return Promise.all([embedImages(root, localizer), embedFontFaces(clone, localizer)]).then(([, fontFaces]) => {
+        if (fontFaces) {
+            let style = document.createElementNS(ns, 'style');
+            style.textContent = fontFaces;
+            root.insertBefore(style, root.firstChild);
+        }
+        return {
+            markup: new XMLSerializer().serializeToString(root),
+            width: width,
+            height: height
+        };
+    });
+}
+
+/**
+ * Draws the SVG on a canvas, `scale` times its size, and returns the PNG as base64.
+ */
+export function rasterizeSvg(svg: StandaloneSvg, scale: number, background: string, localizer: Localizer): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        let image = new Image();
+        image.onload = () => {
+            let canvas = document.createElement('canvas');
+            canvas.width = Math.ceil(svg.width * scale);
+            canvas.height = Math.ceil(svg.height * scale);
+            let context = canvas.getContext('2d');
+            context.fillStyle = background;
+            context.fillRect(0, 0, canvas.width, canvas.height);
+            context.scale(scale, scale);
+            context.drawImage(image, 0, 0, svg.width, svg.height);
+            // a canvas tainted by an image from another origin refuses to be read
+            try {
+                resolve(canvas.toDataURL('image/png').split(',')[1]);
+            } catch (e) {
+                reject(new Error(localizer.getString('Visual_ExportImageFailed')));
+            }
+        };
+        image.onerror = () => reject(new Error(localizer.getString('Visual_ExportImageFailed')));
+        image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg.markup);
+    });
+}
+
+/**
+ * Writes the items as CSV, one column per entry of `columns`. Values that a spreadsheet
+ * would run as a formula are prefixed with a quote.
+ */
+export function toCsv<T>(items: T[], columns: CsvColumn<T>[]): string {
+    let escape = (value: string) => {
+        value = value === null || value === undefined ? '' : value;
+        if (/^[=+\-@]/.test(value)) {
+            value = '\'' + value;
+        }
+        return /[",\r\n]/.test(value) ? '"' + value.replace(/"/g, '""') + '"' : value;
+    };
+    let lines = [columns.map(column => escape(column.name)).join(',')];
+    items.forEach((d) => {
+        lines.push(columns.map(column => escape(column.value(d))).join(','));
+    });
+    return lines.join('\r\n');
+}
+
+/**
+ * Saves the file through the download service of the host, which fails when the host has
+ * none or it does not accept the file type; see `getExportFormats`.
+ */
+export function downloadFile(host: IVisualHost, file: ExportFile, localizer: Localizer): Promise<void> {
+    let service = (<DownloadingVisualHost>host).downloadService;
+    if (!service || hostFileTypes.indexOf(file.fileType) === -1) {
+        return Promise.reject(new Error(localizer.getString('Visual_ExportTypeRefused', file.fileType)));
+    }
+    return Promise.resolve(service.exportVisualsContent(file.content, file.fileName + '.' + file.fileType,
+        file.fileType, file.description)).then(() => undefined);
+}
+
+/**
+ * Copies the computed presentation styles of `source` and its descendants onto their
+ * copies in `target`, drops hidden elements and converts the event text.
+ */
+function inlineStyles(source: Element, target: Element) {
+    let style = window.getComputedStyle(source);
+    if (style.display === 'none') {
+        target.parentNode.removeChild(target);
+        return;
+    }
+    if (source.tagName === 'foreignObject') {
+        target.parentNode.replaceChild(foreignObjectToText(<SVGForeignObjectElement>source), target);
+        return;
+    }
+    target.setAttribute('style', inlinedProperties
+        .map(property => property + ':' + style.getPropertyValue(property))
+        .join(';'));
+    // the copies are collected first as removing one shifts the indexes of the others
+    let targets = Array.from(target.children);
+    Array.from(source.children).forEach((child, i) => inlineStyles(child, targets[i]));
+}
+
+/**
+ * Replaces the HTML of the event text with lines of SVG text that wrap and cut off the
+ * way the HTML does: at the width of the box and after as many lines as fit its height.
+ */
+function foreignObjectToText(source: SVGForeignObjectElement): SVGTextElement {
+    let box = <HTMLElement>(source.querySelector('.event-text') || source.firstElementChild);
+    let text = <SVGTextElement>document.createElementNS(source.namespaceURI, 'text');
+    let transform = source.getAttribute('transform');
+    if (transform) {
+        text.setAttribute('transform', transform);
+    }
+    if (!box) {
+        return text;
+    }
+
+    let style = window.getComputedStyle(box);
+    let fontSize = parseFloat(style.fontSize) || 10;
+    let lineHeight = parseFloat(style.lineHeight) || fontSize * 1.2;
+    let x = parseFloat(source.getAttribute('x')) || 0;
+    let y = parseFloat(source.getAttribute('y')) || 0;
+    let width = parseFloat(source.getAttribute('width')) || 0;
+    let maxLines = Math.max(1, Math.floor((parseFloat(source.getAttribute('height')) || lineHeight) / lineHeight));
+    let wrap = !box.classList.contains('no-wrap');
+    ['font-family', 'font-size', 'font-weight', 'font-style'].forEach(property => {
+        text.setAttribute(property, style.getPropertyValue(property));
+    });
+
+    let context = document.createElement('canvas').getContext('2d');
+    context.font = [style.fontStyle, style.fontWeight, style.fontSize, style.fontFamily].join(' ');
+    let measure = (value: string) => context.measureText(value).width;
+
+    let lines: { text: string, color: string }[] = [];
+    Array.from(box.childNodes).forEach((node) => {
+        let color = node instanceof HTMLElement ? window.getComputedStyle(node).color : style.color;
+        let content = node instanceof HTMLElement ? node.innerText : node.textContent;
+        (content || '').split('\n').map(paragraph => paragraph.trim()).filter(paragraph => !!paragraph).forEach((paragraph) => {
+            let parts = wrap ? wrapText(paragraph, width, measure) : [paragraph];
+            parts.forEach(part => lines.push({ text: part, color: color }));
+        });
+    });
+
+    let truncated = lines.length > maxLines;
+    lines = lines.slice(0, maxLines);
+    lines.forEach((line, i) => {
+        let last = i === lines.length - 1;
+        let value = (!wrap || (last && truncated)) ? fitText(line.text, width, measure, last && truncated) : line.text;
+        let tspan = document.createElementNS(source.namespaceURI, 'tspan');
+        tspan.setAttribute('x', String(x));
+        // places the baseline roughly where the HTML puts it inside the line box
+        tspan.setAttribute('y', String(y + i * lineHeight + (lineHeight + fontSize * 0.7) / 2));
+        tspan.setAttribute('fill', line.color);
+        tspan.textContent = value;
+        text.appendChild(tspan);
+    });
+    return text;
+}
+
+function wrapText(paragraph: string, width: number, measure: (value: string) => number): string[] {
+    let lines: string[] = [];
+    let line = '';
+    paragraph.split(/\s+/).forEach((word) => {
+        let candidate = line ? line + ' ' + word : word;
+        if (line && measure(candidate) > width) {
+            lines.push(line);
+            line = word;
+        }
+        else {
+            line = candidate;
+        }
+    });
+    if (line) {
+        lines.push(line);
+    }
+    return lines;
+}
+
+// shortens the text with an ellipsis until it fits, or adds one to mark text cut off below
+function fitText(value: string, width: number, measure: (value: string) => number, cutOff: boolean): string {
+    if (!cutOff && measure(value) <= width) {
+        return value;
+    }
+    let shortened = value;
+    while (shortened.length > 0 && measure(shortened + '…') > width) {
+        shortened = shortened.slice(0, -1);
+    }
+    return shortened.trim() + '…';
+}
+
+function createBanner(ns: string, banner: ExportBanner, width: number, y: number): SVGSVGElement {
+    let style = window.getComputedStyle(banner.image);
+    let frame = <SVGSVGElement>document.createElementNS(ns, 'svg');
+    frame.setAttribute('x', '0');
+    frame.setAttribute('y', String(y));
+    frame.setAttribute('width', String(width));
+    frame.setAttribute('height', String(banner.height));
+
+    let image = document.createElementNS(ns, 'image');
+    image.setAttribute('href', banner.image.currentSrc || banner.image.src);
+    let position = parseFloat(style.getPropertyValue('object-position'));
+    let align = position <= 0 ? 'xMin' : position >= 100 ? 'xMax' : 'xMid';
+    let fit = style.getPropertyValue('object-fit');
+    if (fit === 'none') {
+        // the image keeps its own size, aligned like the object-position of the banner
+        let naturalWidth = banner.image.naturalWidth;
+        let naturalHeight = banner.image.naturalHeight;
+        let offsets = { xMin: 0, xMid: (width - naturalWidth) / 2, xMax: width - naturalWidth };
+        image.setAttribute('x', String(offsets[align]));
+        image.setAttribute('y', String((banner.height - naturalHeight) / 2));
+        image.setAttribute('width', String(naturalWidth));
+        image.setAttribute('height', String(naturalHeight));
+    }
+    else {
+        image.setAttribute('width', String(width));
+        image.setAttribute('height', String(banner.height));
+        image.setAttribute('preserveAspectRatio', align + 'YMid ' + (fit === 'cover' ? 'slice' : 'meet'));
+    }
+    frame.appendChild(image);
+    return frame;
+}
+
+/**
+ * Replaces the links of the images by data URIs. Images whose server does not allow
+ * them to be read keep their link.
+ */
+function embedImages(root: Element, localizer: Localizer): Promise<void> {
+    let images = Array.from(root.querySelectorAll('image'));
+    return Promise.all(images.map((image) => {
+        let href = image.getAttribute('href');
+        if (!href || /^data:/i.test(href)) {
+            return Promise.resolve();
+        }
+        return toDataUrl(href, localizer).then(
+            (dataUrl) => image.setAttribute('href', dataUrl),
+            () => undefined);
+    })).then(() => undefined);
+}
+
+/**
+ * Returns the font faces of the document that the chart uses, with their fonts embedded.
+ * Fonts installed on the system, such as the Segoe UI of Power BI, have no font face and
+ * are only referred to by name.
+ */
+function embedFontFaces(chart: Element, localizer: Localizer): Promise<string> {
+    let used = chart.outerHTML;
+    let faces: CSSFontFaceRule[] = [];
+    Array.from(document.styleSheets).forEach((sheet: CSSStyleSheet) => {
+        let rules: CSSRule[] = [];
+        try {
+            rules = Array.from(sheet.cssRules);
+        }
+        catch (e) {
+            // style sheets from other origins cannot be read
+        }
+        rules.forEach((rule) => {
+            if (rule instanceof CSSFontFaceRule) {
+                let family = rule.style.getPropertyValue('font-family').replace(/["']/g, '').trim();
+                if (family && used.indexOf(family) !== -1) {
+                    faces.push(rule);
+                }
+            }
+        });
+    });
+    return Promise.all(faces.map((face) => {
+        let css = face.cssText;
+        let urls = css.match(/url\(["']?[^"')]+["']?\)/g) || [];
+        return Promise.all(urls.map((match) => {
+            let url = match.replace(/^url\(["']?|["']?\)$/g, '');
+            return toDataUrl(url, localizer).then(
+                (dataUrl) => { css = css.replace(match, 'url("' + dataUrl + '")'); },
+                () => undefined);
+        })).then(() => css);
+    })).then(css => css.join('\n'));
+}
+
+function toDataUrl(url: string, localizer: Localizer): Promise<string> {
+    return fetch(url)
+        .then((response) => {
+            if (!response.ok) {
+                throw new Error(localizer.getString('Visual_ExportLoadFailed', url));
+            }
+            return response.blob();
+        })
+        .then(blob => new Promise<string>((resolve, reject) => {
+            let reader = new FileReader();
+            reader.onload = () => resolve(<string>reader.result);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsDataURL(blob);
+        }));
+}
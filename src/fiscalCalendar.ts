@@ -0,0 +1,124 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+"use strict";
+
+import * as d3 from 'd3';
+
+// "auto" uses the calendar labels for years starting in January and "fyQuarter" otherwise
+export type FiscalLabelFormat = 'auto' | 'calendar' | 'fyQuarter' | 'quarterFy' | 'fyLong';
+
+export interface FiscalCalendar {
+    // month the fiscal year starts in, 0 for January
+    startMonth: number;
+    labelFormat: FiscalLabelFormat;
+}
+
+export const calendarYear: FiscalCalendar = {
+    startMonth: 0,
+    labelFormat: 'auto'
+};
+
+/**
+ * Returns the fiscal year the date falls in, named after the calendar year in which the
+ * fiscal year ends: with a July start, 1 August 2024 is in FY2025.
+ */
+export function fiscalYear(date: Date, calendar: FiscalCalendar): number {
+    if (calendar.startMonth === 0 || date.getMonth() < calendar.startMonth) {
+        return date.getFullYear();
+    }
+    return date.getFullYear() + 1;
+}
+
+export function fiscalQuarter(date: Date, calendar: FiscalCalendar): number {
+    return Math.floor(((date.getMonth() - calendar.startMonth + 12) % 12) / 3) + 1;
+}
+
+export function fiscalYearInterval(calendar: FiscalCalendar): d3.CountableTimeInterval {
+    return d3.timeInterval((date: Date) => {
+        let year = date.getMonth() >= calendar.startMonth ? date.getFullYear() : date.getFullYear() - 1;
+        date.setFullYear(year, calendar.startMonth, 1);
+        date.setHours(0, 0, 0, 0);
+    }, (date: Date, step: number) => {
+        date.setFullYear(date.getFullYear() + step);
+    }, (start: Date, end: Date) => {
+        return end.getFullYear() - start.getFullYear();
+    }, (date: Date) => {
+        return fiscalYear(date, calendar);
+    });
+}
+
+export function fiscalQuarterInterval(calendar: FiscalCalendar): d3.CountableTimeInterval {
+    return d3.timeInterval((date: Date) => {
+        let month = date.getMonth() - (date.getMonth() - calendar.startMonth + 12) % 3;
+        date.setMonth(month, 1);
+        date.setHours(0, 0, 0, 0);
+    }, (date: Date, step: number) => {
+        date.setMonth(date.getMonth() + step * 3);
+    }, (start: Date, end: Date) => {
+        return ((end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth()) / 3;
+    }, (date: Date) => {
+        return fiscalQuarter(date, calendar) - 1;
+    });
+}
+
+export function formatFiscalYear(date: Date, calendar: FiscalCalendar): string {
+    let year = fiscalYear(date, calendar);
+    switch (resolveLabelFormat(calendar)) {
+        case 'fyQuarter':
+        case 'quarterFy':
+            return 'FY' + shortYear(year);
+        case 'fyLong':
+            return 'FY' + (calendar.startMonth === 0 ? String(year) : (year - 1) + '/' + shortYear(year));
+        default:
+            return String(year);
+    }
+}
+
+export function formatFiscalQuarter(date: Date, calendar: FiscalCalendar): string {
+    let quarter = 'Q' + fiscalQuarter(date, calendar);
+    let year = fiscalYear(date, calendar);
+    switch (resolveLabelFormat(calendar)) {
+        case 'fyQuarter':
+        case 'fyLong':
+            return formatFiscalYear(date, calendar) + ' ' + quarter;
+        case 'quarterFy':
+            return quarter + ' ' + formatFiscalYear(date, calendar);
+        default:
+            return quarter + "'" + shortYear(year);
+    }
+}
+
+function resolveLabelFormat(calendar: FiscalCalendar): FiscalLabelFormat {
+    if (calendar.labelFormat === 'auto') {
+        return calendar.startMonth === 0 ? 'calendar' : 'fyQuarter';
+    }
+    return calendar.labelFormat;
+}
+
+function shortYear(year: number): string {
+    return ('0' + (year % 100)).slice(-2);
+}
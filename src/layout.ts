@@ -0,0 +1,276 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+"use strict";
+
+export type LaneSide = 'above' | 'below';
+
+export interface EventExtent {
+    // stable identity used to order events that occupy the same extent
+    key: string;
+    x0: number;
+    x1: number;
+}
+
+export interface EventLayout {
+    side: LaneSide;
+    lane: number;
+    x0: number;
+    x1: number;
+    y: number;
+    connectorY: number;
+    connectorHeight: number;
+}
+
+export interface TimelineLayout<T> {
+    lanesAbove: number;
+    lanesBelow: number;
+    axisY: number;
+    height: number;
+    events: Map<T, EventLayout>;
+}
+
+export interface LaneLayoutOptions {
+    // preferred axis position, moved down when the lanes above need more room
+    axisY: number;
+    // vertical space available to the layout; grows when the lanes need more room
+    height: number;
+    // space at the top of the canvas that lanes must not cover (title bar)
+    top: number;
+    // distance between the axis and the centre of the first lane
+    firstLaneOffset: number;
+    // distance between the centres of two neighbouring lanes
+    lanePitch: number;
+    // half the height of an event glyph, used to keep the outer lanes on the canvas
+    eventRadius: number;
+    // minimum horizontal gap between two events sharing a lane
+    padding: number;
+}
+
+export const defaultLaneLayoutOptions: LaneLayoutOptions = {
+    axisY: 0,
+    height: 0,
+    top: 35,
+    firstLaneOffset: 100,
+    lanePitch: 105,
+    eventRadius: 55,
+    padding: 6
+};
+
+/**
+ * Assigns every event to a lane above or below the axis so that no two events whose
+ * horizontal extents overlap share a lane. Events are placed from left to right, with
+ * ties broken on their key, which keeps the result independent of the row order of the
+ * data view. Each event takes the innermost free lane, preferring the side opposite to
+ * the previous event so sparse timelines keep their familiar zig-zag.
+ */
+export function computeLaneLayout<T>(
+    items: T[],
+    extentOf: (d: T) => EventExtent,
+    options: LaneLayoutOptions): TimelineLayout<T> {
+
+    let sorted = items
+        .map(d => ({ d, extent: extentOf(d) }))
+        .sort((a, b) => compareExtents(a.extent, b.extent));
+    let lanes: { [side: string]: number[] } = { above: [], below: [] };
+    let placed: { d: T, side: LaneSide, lane: number, extent: EventExtent }[] = [];
+    let lastSide: LaneSide = 'below';
+
+    sorted.forEach(({ d, extent }) => {
+        let preferred: LaneSide = lastSide === 'above' ? 'below' : 'above';
+        let other: LaneSide = preferred === 'above' ? 'below' : 'above';
+        for (let lane = 0; ; lane++) {
+            let side = isLaneFree(lanes[preferred], lane, extent.x0, options.padding) ? preferred
+                : isLaneFree(lanes[other], lane, extent.x0, options.padding) ? other
+                    : null;
+            if (side) {
+                lanes[side][lane] = extent.x1;
+                placed.push({ d, side, lane, extent });
+                lastSide = side;
+                break;
+            }
+        }
+    });
+
+    let lanesAbove = lanes.above.length;
+    let lanesBelow = lanes.below.length;
+    let laneSpan = (count: number) => options.firstLaneOffset + (count - 1) * options.lanePitch + options.eventRadius;
+
+    let axisY = options.axisY;
+    if (lanesAbove > 0) {
+        axisY = Math.max(axisY, options.top + laneSpan(lanesAbove));
+    }
+    let height = options.height;
+    if (lanesBelow > 0) {
+        height = Math.max(height, axisY + laneSpan(lanesBelow));
+    }
+
+    let events = new Map<T, EventLayout>();
+    placed.forEach((p) => {
+        let offset = options.firstLaneOffset + p.lane * options.lanePitch;
+        let y = p.side === 'above' ? axisY - offset : axisY + offset;
+        events.set(p.d, {
+            side: p.side,
+            lane: p.lane,
+            x0: p.extent.x0,
+            x1: p.extent.x1,
+            y: y,
+            connectorY: Math.min(y, axisY),
+            connectorHeight: offset
+        });
+    });
+
+    return { lanesAbove, lanesBelow, axisY, height, events };
+}
+
+function isLaneFree(laneEnds: number[], lane: number, x0: number, padding: number): boolean {
+    return laneEnds[lane] === undefined || laneEnds[lane] + padding <= x0;
+}
+
+function compareExtents(a: EventExtent, b: EventExtent): number {
+    return a.x0 - b.x0
+        || a.x1 - b.x1
+        || (a.key < b.key ? -1 : a.key > b.key ? 1 : 0);
+}
+
+export interface Swimlane<T> {
+    key: string;
+    // items to place in the swimlane
+    items: T[];
+    // number of events the swimlane stands for, including those it does not place
+    count: number;
+    collapsed: boolean;
+}
+
+export interface SwimlaneLayout {
+    key: string;
+    count: number;
+    collapsed: boolean;
+    y: number;
+    height: number;
+}
+
+export interface SwimlaneLayoutOptions {
+    // top of the first swimlane
+    top: number;
+    // vertical space available to the layout; grows when the lanes need more room
+    height: number;
+    // distance between the centres of two rows inside a swimlane
+    rowPitch: number;
+    // height of a collapsed swimlane, which only shows its label
+    collapsedHeight: number;
+    // space above the first and below the last row of a swimlane
+    lanePadding: number;
+    // minimum horizontal gap between two events sharing a row
+    padding: number;
+}
+
+export const defaultSwimlaneLayoutOptions: SwimlaneLayoutOptions = {
+    top: 0,
+    height: 0,
+    rowPitch: 105,
+    collapsedHeight: 28,
+    lanePadding: 8,
+    padding: 6
+};
+
+/**
+ * Stacks the swimlanes below each other. Inside a swimlane events are packed into as
+ * few rows as their horizontal extents allow; collapsed swimlanes take a fixed height
+ * and place none of their events.
+ */
+export function computeSwimlaneLayout<T>(
+    swimlanes: Swimlane<T>[],
+    extentOf: (d: T) => EventExtent,
+    options: SwimlaneLayoutOptions): TimelineLayout<T> & { swimlanes: SwimlaneLayout[] } {
+
+    let events = new Map<T, EventLayout>();
+    let y = options.top;
+    let lanes = swimlanes.map((swimlane): SwimlaneLayout => {
+        let laneTop = y;
+        let height = options.collapsedHeight;
+        if (!swimlane.collapsed && swimlane.items.length > 0) {
+            let rows = packRows(swimlane.items, extentOf, options.padding);
+            let rowCount = 0;
+            rows.forEach((placement, d) => {
+                rowCount = Math.max(rowCount, placement.row + 1);
+                let rowY = laneTop + options.lanePadding + (placement.row + 0.5) * options.rowPitch;
+                events.set(d, {
+                    side: 'below',
+                    lane: placement.row,
+                    x0: placement.extent.x0,
+                    x1: placement.extent.x1,
+                    y: rowY,
+                    connectorY: rowY,
+                    connectorHeight: 0
+                });
+            });
+            height = Math.max(height, rowCount * options.rowPitch + 2 * options.lanePadding);
+        }
+        y += height;
+        return {
+            key: swimlane.key,
+            count: swimlane.count,
+            collapsed: swimlane.collapsed,
+            y: laneTop,
+            height: height
+        };
+    });
+
+    return {
+        lanesAbove: 0,
+        lanesBelow: lanes.length,
+        axisY: options.top,
+        height: Math.max(options.height, y),
+        events: events,
+        swimlanes: lanes
+    };
+}
+
+/**
+ * Places every item in the first row, from the top, where it does not overlap the
+ * previous item of that row.
+ */
+export function packRows<T>(
+    items: T[],
+    extentOf: (d: T) => EventExtent,
+    padding: number): Map<T, { row: number, extent: EventExtent }> {
+
+    let rowEnds: number[] = [];
+    let result = new Map<T, { row: number, extent: EventExtent }>();
+    items
+        .map(d => ({ d, extent: extentOf(d) }))
+        .sort((a, b) => compareExtents(a.extent, b.extent))
+        .forEach(({ d, extent }) => {
+            let row = 0;
+            while (!isLaneFree(rowEnds, row, extent.x0, padding)) {
+                row++;
+            }
+            rowEnds[row] = extent.x1;
+            result.set(d, { row, extent });
+        });
+    return result;
+}
@@ -0,0 +1,114 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+"use strict";
+
+import * as d3 from 'd3';
+import { ColorTriple } from "./colors";
+
+export interface LegendEntry {
+    key: string;
+    color: ColorTriple;
+}
+
+export interface LegendOptions {
+    x: number;
+    y: number;
+    width: number;
+    // key of the entry currently highlighted, or null when nothing is highlighted
+    highlightedKey: string;
+    // overrides the stylesheet colour of the labels, used for high-contrast themes
+    textColor?: string;
+    // label of the entry whose key is empty
+    blankLabel: string;
+    // lays the entries out from the right edge, with the swatch right of the label
+    rightToLeft: boolean;
+    onClick: (entry: LegendEntry) => void;
+}
+
+const itemHeight = 20;
+const swatchRadius = 6;
+const itemGap = 16;
+
+/**
+ * Draws one swatch and label per entry, wrapping onto further rows when the entries do
+ * not fit the width, and returns the height the legend occupies.
+ */
+export function renderLegend(
+    parent: d3.Selection<SVGElement, any, any, any>,
+    entries: LegendEntry[],
+    options: LegendOptions): number {
+
+    if (entries.length === 0) {
+        return 0;
+    }
+
+    let gLegend = parent.append('g')
+        .attr('class', 'legend')
+        .attr('transform', 'translate(' + options.x + ',' + options.y + ')');
+
+    let items = gLegend.selectAll('.legend-item')
+        .data(entries)
+        .enter()
+        .append('g')
+        .attr('class', 'legend-item')
+        .classed('dimmed', (e: LegendEntry) => options.highlightedKey !== null && e.key !== options.highlightedKey)
+        .on('click', (e: LegendEntry) => {
+            d3.event.stopPropagation();
+            options.onClick(e);
+        });
+
+    // right to left entries are drawn left of their origin
+    let direction = options.rightToLeft ? -1 : 1;
+    items.append('circle')
+        .attr('cx', direction * swatchRadius)
+        .attr('cy', itemHeight / 2)
+        .attr('r', swatchRadius)
+        .attr('fill', (e: LegendEntry) => e.color.medium)
+        .attr('stroke', (e: LegendEntry) => e.color.dark);
+
+    items.append('text')
+        .attr('x', direction * (swatchRadius * 2 + 4))
+        .attr('y', itemHeight / 2)
+        .attr('dominant-baseline', 'middle')
+        .attr('text-anchor', options.rightToLeft ? 'end' : 'start')
+        .style('fill', options.textColor || null)
+        .text((e: LegendEntry) => e.key || options.blankLabel);
+
+    let x = 0, row = 0;
+    items.attr('transform', function () {
+        let width = (<SVGGElement>this).getBBox().width;
+        if (x > 0 && x + width > options.width) {
+            x = 0;
+            row++;
+        }
+        let transform = 'translate(' + (options.rightToLeft ? options.width - x : x) + ',' + row * itemHeight + ')';
+        x += width + itemGap;
+        return transform;
+    });
+
+    return (row + 1) * itemHeight;
+}
@@ -0,0 +1,99 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+"use strict";
+
+import { LinkSettings } from "./settings";
+
+/**
+ * Turns a link from the data into the URL to open, or returns null when links are
+ * disabled or the link may not be opened. Relative links are resolved against the
+ * configured base URL; only http(s) links to an allowed domain are let through.
+ */
+export function resolveLink(href: string, settings: LinkSettings): string {
+    if (!href || settings.behavior === 'disabled') {
+        return null;
+    }
+
+    let link = href.trim();
+    if (!/^[a-z][a-z0-9+.-]*:/i.test(link)) {
+        let baseUrl = settings.baseUrl.trim().replace(/\/+$/, '');
+        if (!baseUrl) {
+            return null;
+        }
+        link = baseUrl + (link.charAt(0) === '/' ? '' : '/') + link;
+    }
+
+    let url: URL;
+    try {
+        url = new URL(link);
+    } catch (e) {
+        return null;
+    }
+    if (!/^https?:$/.test(url.protocol)) {
+        return null;
+    }
+    return isAllowedDomain(url.hostname, settings.allowedDomains) ? url.href : null;
+}
+
+/**
+ * Checks the host name against a comma or semicolon separated list of domains, where
+ * a domain also allows its subdomains. An empty list allows every domain.
+ */
+export function isAllowedDomain(hostname: string, allowedDomains: string): boolean {
+    let domains = allowedDomains
+        .split(/[,;\s]+/)
+        .map(domain => domain.trim().toLowerCase().replace(/^\*?\./, ''))
+        .filter(domain => !!domain);
+    if (domains.length === 0) {
+        return true;
+    }
+    let host = hostname.toLowerCase();
+    return domains.some(domain => host === domain || host.slice(-(domain.length + 1)) === '.' + domain);
+}
+
+const imageDataPattern = /^data:image\/(?:png|jpeg|gif|webp|svg\+xml);base64,[a-z0-9+\/=\s]+$/i;
+
+/**
+ * Turns an image URL from the settings or the data into one that may be loaded, or
+ * returns null. Only absolute http(s) URLs and base64 encoded image data are accepted.
+ */
+export function resolveImageUrl(src: string): string {
+    let value = (src || '').trim();
+    if (!value) {
+        return null;
+    }
+    if (imageDataPattern.test(value)) {
+        return value;
+    }
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch (e) {
+        return null;
+    }
+    return /^https?:$/.test(url.protocol) ? url.href : null;
+}
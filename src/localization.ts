@@ -0,0 +1,250 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import ILocalizationManager = powerbi.extensibility.ILocalizationManager;
+import * as d3 from 'd3';
+
+// English strings, used when the report language has no string resources
+const defaultStrings = {
+    Visual_ResetView: 'Reset view',
+    Visual_RowsTruncated: 'Only the first {0} rows could be loaded; the remaining events are not shown.',
+    Visual_SwimlaneLabel: '{0}, {1} events',
+    Visual_ClusterLabel: '+{0} events',
+    Visual_DateRange: '{0} to {1}',
+    Visual_Title: 'Title',
+    Visual_StartDate: 'Start Date',
+    Visual_EndDate: 'End Date',
+    Visual_Ongoing: 'Ongoing',
+    Visual_Today: 'Today',
+    Visual_Duration: 'Duration',
+    Visual_Description: 'Description',
+    Visual_Day: '{0} day',
+    Visual_Days: '{0} days',
+    Visual_Months: '{0} months',
+    Visual_DependsOn: '{0} depends on {1}',
+    Visual_DependencyViolated: '{0} starts before {1} ends',
+    Visual_PlannedStart: 'Planned Start',
+    Visual_PlannedEnd: 'Planned End',
+    Visual_Slip: 'Slip',
+    Visual_Late: '{0} late',
+    Visual_Early: '{0} early',
+    Visual_OnPlan: 'On plan',
+    Visual_PlanView: 'Dates shown',
+    Visual_PlanBoth: 'Both',
+    Visual_PlanActual: 'Actual',
+    Visual_PlanPlanned: 'Planned',
+    Visual_Overview: 'Date range filter',
+    Visual_Progress: 'Progress',
+    Visual_Status: 'Status',
+    Visual_Overdue: 'Overdue',
+    Visual_Percent: '{0}%',
+    Visual_Blank: '(Blank)',
+    Visual_Export: 'Export',
+    Visual_DownloadAs: 'Download as {0}',
+    Visual_ExportDescription: 'Timeline',
+    Visual_ExportEventsDescription: 'Timeline events',
+    Visual_ExportFailed: 'The timeline could not be exported',
+    Visual_ExportImageFailed: 'The timeline could not be drawn as an image',
+    Visual_ExportLoadFailed: 'Could not load {0}',
+    Visual_ExportTypeRefused: 'The host cannot save .{0} files',
+    Visual_EventType: 'Event Type',
+    Visual_Category: 'Category',
+    Visual_Group: 'Group',
+    Visual_Url: 'URL',
+    Visual_SlipDays: 'Slip Days',
+    Visual_ProgressPercent: 'Progress %',
+    Visual_RowSkipped: '{0} row was skipped because of invalid data',
+    Visual_RowsSkipped: '{0} rows were skipped because of invalid data',
+    Visual_Details: 'Details',
+    Visual_Dismiss: 'Dismiss',
+    Visual_RowWarning: 'Row {0}: {1}',
+    Visual_RowWarningWithTitle: 'Row {0} ({1}): {2}',
+    Visual_MoreWarnings: 'and {0} more',
+    Visual_StartDateMissing: 'the start date is missing',
+    Visual_StartDateInvalid: 'the start date "{0}" could not be read',
+    Visual_EndDateInvalid: 'the end date "{0}" could not be read',
+    Visual_EndBeforeStart: 'the end date is before the start date',
+    Visual_ErrorTitle: 'This timeline could not be displayed'
+};
+
+export type StringKey = keyof typeof defaultStrings;
+
+export interface DatePatterns {
+    // day, month name and year, used in tooltips and labels
+    date: string;
+    // day and month name, used for week ticks
+    dayMonth: string;
+    // month name and two digit year, used for month ticks
+    monthYear: string;
+}
+
+// languages written from right to left
+const rightToLeftLanguages = ['ar', 'dv', 'fa', 'he', 'iw', 'ps', 'ur', 'yi'];
+
+const englishPatterns: DatePatterns = {
+    date: '%d %b %Y',
+    dayMonth: '%d %b',
+    monthYear: "%b'%y"
+};
+
+interface DateTimePart {
+    type: string;
+    value: string;
+}
+
+// formatToParts is not declared by the es2015 library the visual compiles against
+interface PartsDateTimeFormat extends Intl.DateTimeFormat {
+    formatToParts(date: Date): DateTimePart[];
+}
+
+/**
+ * Looks up the strings of the visual in the language of the report and formats dates
+ * the way its locale does.
+ */
+export class Localizer {
+    public locale: string;
+    public isRightToLeft: boolean;
+    // d3 time formats with the month and day names of the locale
+    public timeLocale: d3.TimeLocaleObject;
+    public patterns: DatePatterns;
+    private manager: ILocalizationManager;
+    private formatMediumDate: (date: Date) => string;
+
+    constructor(locale: string, manager: ILocalizationManager) {
+        this.locale = locale || 'en-US';
+        this.manager = manager;
+        this.isRightToLeft = rightToLeftLanguages.indexOf(this.locale.split('-')[0].toLowerCase()) !== -1;
+        try {
+            this.timeLocale = d3.timeFormatLocale(createTimeLocaleDefinition(this.locale));
+            this.patterns = createDatePatterns(this.locale);
+        }
+        catch (e) {
+            // an unknown locale, or a browser without formatToParts, falls back to English
+            this.locale = 'en-US';
+            this.timeLocale = d3.timeFormatLocale(createTimeLocaleDefinition('en-US'));
+            this.patterns = englishPatterns;
+        }
+        this.formatMediumDate = this.timeLocale.format(this.patterns.date);
+    }
+
+    /**
+     * Returns the string in the language of the report, with `{0}`, `{1}` and so on
+     * replaced by the arguments; numbers are formatted for the locale.
+     */
+    public getString(key: StringKey, ...args: (string | number)[]): string {
+        let value = this.manager ? this.manager.getDisplayName(key) : null;
+        // the host hands back the key, or nothing, when the language has no such string
+        if (!value || value === key) {
+            value = defaultStrings[key];
+        }
+        return value.replace(/\{(\d+)\}/g, (match: string, index: string) => {
+            let arg = args[parseInt(index, 10)];
+            if (arg === undefined) {
+                return match;
+            }
+            return typeof arg === 'number' ? arg.toLocaleString(this.locale) : arg;
+        });
+    }
+
+    public formatDate(date: Date): string {
+        return this.formatMediumDate(date);
+    }
+}
+
+/**
+ * Builds a d3 time locale from the month, day and period names and the date and time
+ * order that the browser knows for the locale.
+ */
+export function createTimeLocaleDefinition(locale: string): d3.TimeLocaleDefinition {
+    let names = (options: Intl.DateTimeFormatOptions, dates: Date[]) => {
+        let format = new Intl.DateTimeFormat(locale, options);
+        return dates.map(date => format.format(date));
+    };
+    let monthDates = d3.range(12).map(month => new Date(2000, month, 15));
+    // 2 January 2000 was a Sunday, where d3 starts its weeks
+    let dayDates = d3.range(7).map(day => new Date(2000, 0, 2 + day));
+    let periodDates = [new Date(2000, 0, 1, 1), new Date(2000, 0, 1, 13)];
+    let periods = periodDates.map((date) => {
+        let part = formatToParts(locale, { hour: 'numeric', hour12: true }, date).find(p => p.type === 'dayPeriod');
+        return part ? part.value : date.getHours() < 12 ? 'AM' : 'PM';
+    });
+
+    let date = toPattern(locale, { year: 'numeric', month: '2-digit', day: '2-digit' });
+    let time = toPattern(locale, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+    return {
+        dateTime: date + ' ' + time,
+        date: date,
+        time: time,
+        periods: <[string, string]>periods,
+        days: <d3.TimeLocaleDefinition['days']>names({ weekday: 'long' }, dayDates),
+        shortDays: <d3.TimeLocaleDefinition['shortDays']>names({ weekday: 'short' }, dayDates),
+        months: <d3.TimeLocaleDefinition['months']>names({ month: 'long' }, monthDates),
+        shortMonths: <d3.TimeLocaleDefinition['shortMonths']>names({ month: 'short' }, monthDates)
+    };
+}
+
+/**
+ * Returns the d3 patterns of the dates shown by the visual, in the order the locale
+ * writes day, month and year.
+ */
+export function createDatePatterns(locale: string): DatePatterns {
+    return {
+        date: toPattern(locale, { day: 'numeric', month: 'short', year: 'numeric' }),
+        dayMonth: toPattern(locale, { day: 'numeric', month: 'short' }),
+        monthYear: toPattern(locale, { month: 'short', year: '2-digit' })
+    };
+}
+
+function formatToParts(locale: string, options: Intl.DateTimeFormatOptions, date: Date): DateTimePart[] {
+    return (<PartsDateTimeFormat>new Intl.DateTimeFormat(locale, options)).formatToParts(date);
+}
+
+/**
+ * Turns the parts of a sample date formatted with the options into a d3 pattern.
+ */
+function toPattern(locale: string, options: Intl.DateTimeFormatOptions): string {
+    let hour12 = new Intl.DateTimeFormat(locale, options).resolvedOptions().hour12;
+    let directives: { [type: string]: string } = {
+        year: options.year === '2-digit' ? '%y' : '%Y',
+        month: options.month === 'short' ? '%b' : options.month === 'long' ? '%B' : options.month === '2-digit' ? '%m' : '%-m',
+        // some languages, such as Japanese, write the month as a number followed by a literal
+        numericMonth: '%-m',
+        day: options.day === '2-digit' ? '%d' : '%-d',
+        hour: hour12 ? '%I' : '%H',
+        minute: '%M',
+        second: '%S',
+        dayPeriod: '%p',
+        weekday: '%a'
+    };
+    return formatToParts(locale, options, new Date(2000, 10, 23, 16, 45, 30))
+        .map(part => directives[part.type === 'month' && /^\d+$/.test(part.value) && options.month !== '2-digit' ? 'numericMonth' : part.type]
+            || part.value.replace(/%/g, '%%'))
+        .join('');
+}
@@ -0,0 +1,208 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import * as d3 from 'd3';
+import { AdvancedFilter, FilterType, IAdvancedFilter, IAdvancedFilterCondition, IFilterColumnTarget } from "powerbi-models";
+
+export interface DensityBin {
+    start: Date;
+    end: Date;
+    // number of events overlapping the bin
+    count: number;
+}
+
+export interface OverviewOptions {
+    width: number;
+    height: number;
+    // space between the edges of the strip and the ends of its time scale
+    padding: number;
+    barColor: string;
+    // brushed range, null when nothing is brushed
+    range: [Date, Date];
+    // false when the host does not allow brushing; a brushed range is still shown
+    interactive: boolean;
+    label: string;
+    // called while the brush is dragged, and with the final range once it is released
+    onBrush: (range: [Date, Date]) => void;
+    onBrushEnd: (range: [Date, Date]) => void;
+}
+
+/**
+ * Splits the domain into about `binCount` intervals on calendar boundaries and counts
+ * the events overlapping each of them.
+ */
+export function computeDensity<T>(
+    items: T[],
+    startOf: (d: T) => Date,
+    endOf: (d: T) => Date,
+    domain: [Date, Date],
+    binCount: number): DensityBin[] {
+
+    let [first, last] = domain;
+    let ticks = d3.scaleTime().domain(domain).ticks(binCount)
+        .filter(tick => tick.getTime() > first.getTime() && tick.getTime() < last.getTime());
+    let thresholds = [first, ...ticks, last];
+    let bins: DensityBin[] = thresholds.slice(1).map((end, i) => ({ start: thresholds[i], end: end, count: 0 }));
+    items.forEach((d) => {
+        let start = startOf(d).getTime();
+        let end = endOf(d).getTime();
+        bins.forEach((bin) => {
+            if (start < bin.end.getTime() && end >= bin.start.getTime()) {
+                bin.count++;
+            }
+        });
+    });
+    return bins;
+}
+
+/**
+ * Returns the column a filter on the field is applied to, or null when the field is an
+ * aggregate or a measure, which cannot be filtered by value.
+ */
+export function getFilterTarget(column: powerbi.DataViewMetadataColumn): IFilterColumnTarget {
+    let queryName = column ? column.queryName || '' : '';
+    let dot = queryName.indexOf('.');
+    if (dot === -1 || column.isMeasure || /[()]/.test(queryName)) {
+        return null;
+    }
+    return { table: queryName.substr(0, dot), column: queryName.substr(dot + 1) };
+}
+
+/**
+ * Returns a filter keeping the rows on or after the first day of the range and before
+ * its last day.
+ */
+export function createDateRangeFilter(target: IFilterColumnTarget, [start, end]: [Date, Date]): IAdvancedFilter {
+    return new AdvancedFilter(target, 'And',
+        { operator: 'GreaterThanOrEqual', value: start },
+        { operator: 'LessThan', value: end }).toJSON();
+}
+
+/**
+ * Reads the range back from the filters the host restores with the report, or returns
+ * null when none of them is a date range filter.
+ */
+export function readDateRangeFilter(filters: powerbi.IFilter[]): [Date, Date] {
+    let filter = <IAdvancedFilter>(filters || []).find(f => (<IAdvancedFilter>f).filterType === FilterType.Advanced);
+    let conditions = filter && filter.conditions || [];
+    let start = conditions.find(c => c.operator === 'GreaterThanOrEqual');
+    let end = conditions.find(c => c.operator === 'LessThan');
+    if (!start || !end) {
+        return null;
+    }
+    let range: [Date, Date] = [toDate(start.value), toDate(end.value)];
+    return range.some(date => !date || isNaN(date.getTime())) ? null : range;
+}
+
+// the values come back as ISO strings
+function toDate(value: IAdvancedFilterCondition['value']): Date {
+    if (value instanceof Date) {
+        return new Date(value.getTime());
+    }
+    return typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+}
+
+export function isSameRange(a: [Date, Date], b: [Date, Date]): boolean {
+    if (!a || !b) {
+        return a === b;
+    }
+    return a[0].getTime() === b[0].getTime() && a[1].getTime() === b[1].getTime();
+}
+
+/**
+ * Draws the event density over the whole domain as bars, with a brush to pick a range
+ * of whole days on top of them.
+ */
+export function renderOverview(
+    svg: d3.Selection<SVGElement, any, any, any>,
+    domain: [Date, Date],
+    bins: DensityBin[],
+    options: OverviewOptions) {
+
+    svg.selectAll('*').remove();
+    svg.attr('width', options.width)
+        .attr('height', options.height)
+        .attr('aria-label', options.label);
+
+    let x = d3.scaleTime()
+        .domain(domain)
+        .range([options.padding, options.width - options.padding]);
+    let y = d3.scaleLinear()
+        .domain([0, d3.max(bins, bin => bin.count) || 1])
+        .range([options.height - 4, 4]);
+
+    svg.append('g')
+        .attr('class', 'overview-density')
+        .selectAll('rect')
+        .data(bins)
+        .enter()
+        .append('rect')
+        .attr('x', (bin: DensityBin) => x(bin.start))
+        .attr('width', (bin: DensityBin) => Math.max(0, x(bin.end) - x(bin.start) - 1))
+        .attr('y', (bin: DensityBin) => y(bin.count))
+        .attr('height', (bin: DensityBin) => y(0) - y(bin.count))
+        .attr('fill', options.barColor);
+
+    if (!options.interactive) {
+        if (options.range) {
+            svg.append('rect')
+                .attr('class', 'overview-range')
+                .attr('x', x(options.range[0]))
+                .attr('width', x(options.range[1]) - x(options.range[0]))
+                .attr('height', options.height);
+        }
+        return;
+    }
+
+    // ranges shorter than a day clear the brush
+    let toRange = (selection: [number, number]): [Date, Date] => {
+        let range = selection ? selection.map(px => d3.timeDay.round(x.invert(px))) : null;
+        return range && range[1].getTime() > range[0].getTime() ? [range[0], range[1]] : null;
+    };
+    // moves made by the code itself have no source event and are not reported back
+    let brush = d3.brushX()
+        .extent([[options.padding, 0], [options.width - options.padding, options.height]])
+        .on('brush', () => {
+            if (d3.event.sourceEvent) {
+                options.onBrush(toRange(d3.event.selection));
+            }
+        })
+        .on('end', () => {
+            if (d3.event.sourceEvent) {
+                options.onBrushEnd(toRange(d3.event.selection));
+            }
+        });
+
+    let gBrush = svg.append('g')
+        .attr('class', 'overview-brush')
+        .call(brush);
+    if (options.range) {
+        gBrush.call(brush.move, options.range.map(date => x(date)));
+    }
+}
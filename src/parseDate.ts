@@ -0,0 +1,144 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import PrimitiveValue = powerbi.PrimitiveValue;
+
+// Excel serial numbers count days from 30 December 1899 (which absorbs Excel's 1900 leap-year bug)
+const excelEpoch = new Date(1899, 11, 30);
+const maxExcelSerial = 2958465;
+// whole numbers in this range are read as years: "2024" is far more likely a year than the serial for 1905
+const minYear = 1000;
+const maxYear = 9999;
+const msPerDay = 24 * 60 * 60 * 1000;
+
+const isoDatePattern = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
+const isoWeekPattern = /^(\d{4})-?W(\d{1,2})(?:-?([1-7]))?$/i;
+const numericDatePattern = /^(\d{1,4})[\/.\-](\d{1,2})[\/.\-](\d{1,4})$/;
+
+/**
+ * Converts a data view value into a date. Accepts Date objects, epoch milliseconds,
+ * four-digit years (read as 1 January), Excel serial numbers, ISO dates and week
+ * dates (2024-W05-2), numeric dates in the order of the given locale (day first unless
+ * the locale is en-US style) and anything else `Date.parse` understands. Returns null for missing or unparseable values.
+ */
+export function parseDate(value: PrimitiveValue, locale?: string): Date {
+    if (value === null || value === undefined || value === '') {
+        return null;
+    }
+    if (value instanceof Date) {
+        return validDate(new Date(value.getTime()));
+    }
+    if (typeof value === 'number') {
+        return parseNumber(value);
+    }
+    if (typeof value !== 'string') {
+        return null;
+    }
+
+    let text = value.trim();
+    if (/^-?\d+(\.\d+)?$/.test(text)) {
+        return parseNumber(parseFloat(text));
+    }
+
+    let match = isoDatePattern.exec(text);
+    if (match) {
+        // date-only ISO strings are read as local dates, not as UTC midnight
+        return localDate(+match[1], +match[2], +match[3]);
+    }
+
+    match = isoWeekPattern.exec(text);
+    if (match) {
+        return isoWeekDate(+match[1], +match[2], match[3] ? +match[3] : 1);
+    }
+
+    match = numericDatePattern.exec(text);
+    if (match) {
+        return parseNumericDate(+match[1], +match[2], +match[3], match[1].length, locale);
+    }
+
+    let parsed = Date.parse(text);
+    return isNaN(parsed) ? null : new Date(parsed);
+}
+
+function parseNumber(value: number): Date {
+    if (!isFinite(value)) {
+        return null;
+    }
+    if (value % 1 === 0 && value >= minYear && value <= maxYear) {
+        return localDate(value, 1, 1);
+    }
+    if (value > 0 && value <= maxExcelSerial) {
+        let days = Math.floor(value);
+        let date = new Date(excelEpoch.getFullYear(), excelEpoch.getMonth(), excelEpoch.getDate() + days);
+        return validDate(new Date(date.getTime() + Math.round((value - days) * msPerDay)));
+    }
+    return validDate(new Date(value));
+}
+
+function parseNumericDate(a: number, b: number, c: number, firstLength: number, locale: string): Date {
+    if (firstLength === 4) {
+        return localDate(a, b, c);
+    }
+    let year = c < 100 ? 2000 + c : c;
+    let monthFirst = isMonthFirstLocale(locale);
+    if (a > 12) {
+        monthFirst = false;
+    } else if (b > 12) {
+        monthFirst = true;
+    }
+    return monthFirst ? localDate(year, a, b) : localDate(year, b, a);
+}
+
+function isMonthFirstLocale(locale: string): boolean {
+    let language = (locale || 'en-US').toLowerCase();
+    return language === 'en-us' || language === 'en' || language === 'en-ph' || language === 'es-us';
+}
+
+function isoWeekDate(year: number, week: number, weekday: number): Date {
+    if (week < 1 || week > 53) {
+        return null;
+    }
+    // week 1 is the week that contains 4 January
+    let jan4 = new Date(year, 0, 4);
+    let mondayOfWeek1 = jan4.getDate() - ((jan4.getDay() + 6) % 7);
+    return new Date(year, 0, mondayOfWeek1 + (week - 1) * 7 + (weekday - 1));
+}
+
+function localDate(year: number, month: number, day: number): Date {
+    let date = new Date(year, month - 1, day);
+    // reject overflowing values such as 31/02 instead of rolling them into the next month
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+        return null;
+    }
+    return date;
+}
+
+function validDate(date: Date): Date {
+    return isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,107 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+"use strict";
+
+import * as d3 from 'd3';
+import { Localizer, StringKey } from "./localization";
+import { PlanView } from "./settings";
+import { formatDuration } from "./tooltips";
+
+const planViews: PlanView[] = ['both', 'actual', 'planned'];
+
+const viewLabels: { [view: string]: StringKey } = {
+    both: 'Visual_PlanBoth',
+    actual: 'Visual_PlanActual',
+    planned: 'Visual_PlanPlanned'
+};
+
+export interface Slip {
+    // the planned date and the actual date it is compared with
+    planned: Date;
+    actual: Date;
+    // whole days the actual date falls after the planned one, negative when it is earlier
+    days: number;
+}
+
+/**
+ * Compares the end of an event with its planned end. An ongoing event has no end yet,
+ * so its start is compared with the planned start instead.
+ */
+export function computeSlip(plannedStart: Date, plannedEnd: Date, start: Date, end: Date, openEnded: boolean): Slip {
+    let [planned, actual] = openEnded ? [plannedStart, start] : [plannedEnd, end];
+    return {
+        planned: planned,
+        actual: actual,
+        days: Math.round((actual.getTime() - planned.getTime()) / (1000 * 60 * 60 * 24))
+    };
+}
+
+/**
+ * Describes the slip as a duration late or early, in days or months like the event
+ * durations in tooltips.
+ */
+export function formatSlip(slip: Slip, localizer: Localizer): string {
+    if (slip.days === 0) {
+        return localizer.getString('Visual_OnPlan');
+    }
+    return localizer.getString(slip.days > 0 ? 'Visual_Late' : 'Visual_Early', formatDuration(slip.planned, slip.actual, localizer));
+}
+
+/**
+ * Shows a button per view next to each other in the corner of the visual, with the
+ * current view pressed.
+ */
+export function renderPlanViewToggle(
+    container: d3.Selection<HTMLElement, any, any, any>,
+    show: boolean,
+    view: PlanView,
+    localizer: Localizer,
+    onChange: (view: PlanView) => void) {
+
+    container.selectAll('.plan-toggle').remove();
+    if (!show) {
+        return;
+    }
+
+    container.append('div')
+        .attr('class', 'plan-toggle')
+        .attr('role', 'toolbar')
+        .attr('aria-label', localizer.getString('Visual_PlanView'))
+        .selectAll('button')
+        .data(planViews)
+        .enter()
+        .append('button')
+        .classed('selected', (v: PlanView) => v === view)
+        .attr('aria-pressed', (v: PlanView) => String(v === view))
+        .text((v: PlanView) => localizer.getString(viewLabels[v]))
+        .on('click', (v: PlanView) => {
+            d3.event.stopPropagation();
+            if (v !== view) {
+                onChange(v);
+            }
+        });
+}
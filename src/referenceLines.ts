@@ -0,0 +1,125 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import DataViewTable = powerbi.DataViewTable;
+import { assignPaletteColors } from "./colors";
+import { parseDate } from "./parseDate";
+
+export interface ReferenceLine {
+    label: string;
+    start: Date;
+    // end of a shaded band, null for a single line
+    end: Date;
+    color: string;
+}
+
+const defaultColor = '#605e5c';
+const colorPattern = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Reads reference lines and bands from the settings text. Entries are separated by
+ * semicolons or line breaks and have the form `date | label | colour`, where the date
+ * may be a range (`2024-06-01..2024-06-30`) and the label and colour are optional.
+ * Entries whose dates cannot be read are skipped.
+ */
+export function parseReferenceLines(text: string, locale?: string): ReferenceLine[] {
+    return (text || '')
+        .split(/[;\n]+/)
+        .map((entry): ReferenceLine => {
+            let [dates, label, color] = entry.split('|').map(part => part.trim());
+            if (!dates) {
+                return null;
+            }
+            let [startText, endText] = dates.split('..').map(part => part.trim());
+            let start = parseDate(startText, locale);
+            let end = endText ? parseDate(endText, locale) : null;
+            if (!start || (endText && !end)) {
+                return null;
+            }
+            if (end && end.getTime() < start.getTime()) {
+                [start, end] = [end, start];
+            }
+            return {
+                label: label || '',
+                start: start,
+                end: end,
+                color: color && colorPattern.test(color) ? color : defaultColor
+            };
+        })
+        .filter(line => line !== null);
+}
+
+/**
+ * Reads the distinct reference lines bound to the Reference Dates role. The first field
+ * in the role gives the date; a second field turns the entry into a band ending on that
+ * date. Each label gets its own palette colour. The fields must come from the event
+ * table: the rows are shared with the events, so fields of an unrelated table would
+ * repeat every event once per reference date.
+ */
+export function readReferenceLines(table: DataViewTable, locale?: string): ReferenceLine[] {
+    let dateIndexes: number[] = [];
+    let labelIndex = -1;
+    table.columns.forEach((column, i) => {
+        if (column.roles.hasOwnProperty('ReferenceDates')) {
+            dateIndexes.push(i);
+        }
+        if (column.roles.hasOwnProperty('ReferenceLabel')) {
+            labelIndex = i;
+        }
+    });
+    if (dateIndexes.length === 0) {
+        return [];
+    }
+
+    let seen = new Set<string>();
+    let lines: ReferenceLine[] = [];
+    table.rows.forEach((row) => {
+        let start = parseDate(row[dateIndexes[0]], locale);
+        let end = dateIndexes.length > 1 ? parseDate(row[dateIndexes[1]], locale) : null;
+        let label = labelIndex !== -1 && row[labelIndex] !== null ? row[labelIndex].toString() : '';
+        if (!start) {
+            return;
+        }
+        let key = [start.getTime(), end ? end.getTime() : '', label].join('|');
+        if (seen.has(key)) {
+            return;
+        }
+        seen.add(key);
+        lines.push({
+            label: label,
+            start: end && end.getTime() < start.getTime() ? end : start,
+            end: end && end.getTime() < start.getTime() ? start : end,
+            color: null
+        });
+    });
+
+    let colors = assignPaletteColors(lines.map(line => line.label).filter((v, i, self) => self.indexOf(v) === i));
+    lines.forEach(line => line.color = colors.get(line.label).medium);
+    return lines;
+}
@@ -0,0 +1,102 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import ISelectionManager = powerbi.extensibility.ISelectionManager;
+import ISelectionId = powerbi.visuals.ISelectionId;
+import * as d3 from 'd3';
+
+export interface Selectable {
+    selectionId: ISelectionId;
+    // false when another visual highlights data that excludes this item
+    Highlighted: boolean;
+}
+
+/**
+ * Keeps the selected, deselected and filtered-out state of the event groups in line
+ * with the selection manager, which is the only place the selection is stored; the
+ * state therefore survives re-renders and picks up selections restored by the host.
+ */
+export class SelectionController<T extends Selectable> {
+    private selectionManager: ISelectionManager;
+    private selection: d3.Selection<any, T, any, any>;
+
+    constructor(selectionManager: ISelectionManager) {
+        this.selectionManager = selectionManager;
+        this.selectionManager.registerOnSelectCallback(() => this.apply());
+    }
+
+    /**
+     * Sets the groups the selection state is drawn on and draws it.
+     */
+    public bind(selection: d3.Selection<any, T, any, any>) {
+        this.selection = selection;
+        this.apply();
+    }
+
+    /**
+     * Selects the item, or toggles it within the current selection when `multiSelect`
+     * is set (Ctrl or Cmd click).
+     */
+    public select(d: T, multiSelect: boolean) {
+        if (!multiSelect && this.isSelected(d) && this.getSelectionIds().length === 1) {
+            this.clear();
+            return;
+        }
+        this.selectionManager.select(d.selectionId, multiSelect).then(() => this.apply());
+    }
+
+    public clear() {
+        if (!this.selectionManager.hasSelection()) {
+            return;
+        }
+        this.selectionManager.clear().then(() => this.apply());
+    }
+
+    public isSelected(d: T): boolean {
+        return this.getSelectionIds().some(id => id.equals(d.selectionId));
+    }
+
+    public apply() {
+        if (!this.selection) {
+            return;
+        }
+        let hasSelection = this.getSelectionIds().length > 0;
+        this.selection
+            .classed('selected', (d: T) => hasSelection && this.isSelected(d))
+            .classed('deselected', (d: T) => hasSelection && !this.isSelected(d))
+            .classed('filtered-out', (d: T) => !d.Highlighted);
+
+        this.selection.filter('[role=option]')
+            .attr('aria-selected', (d: T) => hasSelection && this.isSelected(d) ? 'true' : 'false');
+    }
+
+    private getSelectionIds(): ISelectionId[] {
+        return <ISelectionId[]>this.selectionManager.getSelectionIds();
+    }
+}
@@ -28,18 +28,203 @@
 
 import { dataViewObjectsParser } from "powerbi-visuals-utils-dataviewutils";
 import DataViewObjectsParser = dataViewObjectsParser.DataViewObjectsParser;
+import { FiscalLabelFormat } from "./fiscalCalendar";
+
+export type LayoutMode = "circleTimeline" | "swimlanes";
+export type Orientation = "auto" | "horizontal" | "vertical";
+export type ImagePosition = "off" | "header" | "footer";
+export type ImageSizing = "fit" | "fill" | "center";
+export type CircleBackground = "opaque" | "transparent";
+export type LinkBehavior = "launchUrl" | "disabled";
+export type Alignment = "left" | "center" | "right";
+export type PlanView = "both" | "actual" | "planned";
 
 export class VisualSettings extends DataViewObjectsParser {
   public timeline: TimelineSettings = new TimelineSettings();
+  public dataPoint: DataPointSettings = new DataPointSettings();
+  public legend: LegendSettings = new LegendSettings();
+  public links: LinkSettings = new LinkSettings();
+  public references: ReferenceSettings = new ReferenceSettings();
+  public calendar: CalendarSettings = new CalendarSettings();
+  public titleBar: TitleBarSettings = new TitleBarSettings();
+  public axis: AxisSettings = new AxisSettings();
+  public eventText: EventTextSettings = new EventTextSettings();
+  public glyphs: GlyphSettings = new GlyphSettings();
+  public export: ExportSettings = new ExportSettings();
+  public plan: PlanSettings = new PlanSettings();
+  public overview: OverviewSettings = new OverviewSettings();
+  public status: StatusSettings = new StatusSettings();
 }
 
 export class TimelineSettings {
   public title: string = "";
 
-  public layout: string = "";
+  public layout: LayoutMode = "circleTimeline";
+
+  // "auto" picks vertical when the viewport is taller than it is wide
+  public orientation: Orientation = "auto";
+
+  public imgPosition: ImagePosition = "footer";
 
+  // used when no Banner Image field is bound
   public imgUrl: string = "";
 
-  public circleBackground: string = "opaque";
+  public imgSizing: ImageSizing = "fit";
+
+  // height of the banner in pixels
+  public imgHeight: number = 110;
+
+  public imgAlignment: Alignment = "center";
+
+  public circleBackground: CircleBackground = "opaque";
+
+  // events move, fade in and fade out when the data or the layout changes
+  public animate: boolean = true;
+}
+
+export class DataPointSettings {
+  // per title or category; the colours themselves are enumerated by the visual
+  public fill: string = "";
 }
 
+export class LegendSettings {
+  public show: boolean = true;
+}
+
+export class LinkSettings {
+  // "launchUrl" opens links through the host, "disabled" ignores them
+  public behavior: LinkBehavior = "launchUrl";
+
+  // prefixed to relative links found in the data
+  public baseUrl: string = "";
+
+  // comma separated; when empty every domain is allowed
+  public allowedDomains: string = "";
+}
+
+export class ReferenceSettings {
+  public showToday: boolean = true;
+
+  // empty shows "Today" in the language of the report
+  public todayLabel: string = "";
+
+  public todayColor: string = "#d83b01";
+
+  // greys out the events that ended before today
+  public desaturatePast: boolean = false;
+
+  // "date | label | colour" entries separated by semicolons; "start..end" draws a band
+  public lines: string = "";
+}
+
+export class CalendarSettings {
+  // month the fiscal year starts in, "1" for January
+  public fiscalYearStart: string = "1";
+
+  public labelFormat: FiscalLabelFormat = "auto";
+}
+
+const defaultFontFamily = "'Segoe UI', wf_segoe-ui_normal, helvetica, arial, sans-serif";
+
+export class TitleBarSettings {
+  public show: boolean = true;
+
+  public fontFamily: string = defaultFontFamily;
+
+  // in points
+  public fontSize: number = 18;
+
+  public fontColor: string = "#ffffff";
+
+  public alignment: Alignment = "center";
+
+  public background: string = "#444444";
+}
+
+export class AxisSettings {
+  public bandColor: string = "#636363";
+
+  // used for every other fiscal year
+  public alternateBandColor: string = "#868686";
+
+  public tickColor: string = "#ffffff";
+
+  public circleColor: string = "#525252";
+
+  public circleFill: string = "#ffffff";
+
+  public circleRadius: number = 27;
+
+  public labelColor: string = "#000000";
+
+  // d3 time format such as "%b %Y"; empty to follow the zoom level
+  public labelFormat: string = "";
+}
+
+export class EventTextSettings {
+  public fontFamily: string = defaultFontFamily;
+
+  // in points
+  public fontSize: number = 7.5;
+
+  public bold: boolean = true;
+
+  public wrap: boolean = true;
+
+  public maxLines: number = 5;
+
+  // width of the text under circles and narrow glyphs, in pixels
+  public width: number = 70;
+}
+
+export class GlyphSettings {
+  public circleRadius: number = 45;
+
+  public circleStrokeWidth: number = 4;
+
+  public ellipseRadius: number = 50;
+
+  public ellipseStrokeWidth: number = 2;
+}
+
+export class ExportSettings {
+  // buttons to download the timeline as SVG, PNG or CSV, shown while hovering the visual
+  public show: boolean = true;
+
+  // without extension; the format adds it
+  public fileName: string = "timeline";
+}
+
+export class PlanSettings {
+  // which dates the events are drawn at when Planned Start is bound
+  public view: PlanView = "both";
+
+  // buttons to switch the view on the canvas, shown while hovering the visual
+  public showToggle: boolean = true;
+}
+
+export class OverviewSettings {
+  // strip under the timeline whose brush filters the other visuals on the page to a date range
+  public show: boolean = false;
+
+  // in pixels
+  public height: number = 48;
+}
+
+export class StatusSettings {
+  public onTrackColor: string = "#107c10";
+
+  public atRiskColor: string = "#ca5010";
+
+  public lateColor: string = "#d13438";
+
+  public doneColor: string = "#0078d4";
+
+  // badge of the Status values that are none of the above
+  public otherColor: string = "#8a8886";
+
+  // flags the events whose end date passed before their progress reached 100%
+  public flagOverdue: boolean = true;
+
+  public overdueColor: string = "#a4262c";
+}
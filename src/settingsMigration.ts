@@ -0,0 +1,120 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import DataViewObjects = powerbi.DataViewObjects;
+import DataViewPropertyValue = powerbi.DataViewPropertyValue;
+import VisualObjectInstance = powerbi.VisualObjectInstance;
+import { FiscalLabelFormat } from "./fiscalCalendar";
+import { Alignment, CircleBackground, ImagePosition, ImageSizing, LayoutMode, LinkBehavior, Orientation, PlanView, VisualSettings } from "./settings";
+
+const layoutModes: LayoutMode[] = ["circleTimeline", "swimlanes"];
+const orientations: Orientation[] = ["auto", "horizontal", "vertical"];
+const imagePositions: ImagePosition[] = ["off", "header", "footer"];
+const imageSizings: ImageSizing[] = ["fit", "fill", "center"];
+const circleBackgrounds: CircleBackground[] = ["opaque", "transparent"];
+const linkBehaviors: LinkBehavior[] = ["launchUrl", "disabled"];
+const alignments: Alignment[] = ["left", "center", "right"];
+const planViews: PlanView[] = ["both", "actual", "planned"];
+const labelFormats: FiscalLabelFormat[] = ["auto", "calendar", "fyQuarter", "quarterFy", "fyLong"];
+const months = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10", "11", "12"];
+
+/**
+ * Rewrites the values saved by versions of the visual that declared these properties
+ * as free text, so that older reports keep rendering the way they did. Returns the
+ * rewritten properties, which are to be saved with the report so that they no longer
+ * depend on the legacy text, or null when nothing was rewritten.
+ */
+export function migrateSettings(settings: VisualSettings, objects: DataViewObjects): VisualObjectInstance {
+    let timeline = settings.timeline;
+    let saved = (objects && objects["timeline"]) || {};
+    let legacyLayout: string = String(timeline.layout);
+    let migrated: { [propertyName: string]: DataViewPropertyValue } = {};
+    // the layout text held the banner position, and only "header" moved it to the top
+    if (layoutModes.indexOf(timeline.layout) === -1) {
+        if (saved["imgPosition"] === undefined) {
+            timeline.imgPosition = legacyLayout.toLowerCase() === "header" ? "header" : "footer";
+            migrated["imgPosition"] = timeline.imgPosition;
+        }
+        timeline.layout = "circleTimeline";
+        migrated["layout"] = timeline.layout;
+    }
+    // any text other than "opaque" drew transparent circles and ellipses
+    if (circleBackgrounds.indexOf(timeline.circleBackground) === -1) {
+        timeline.circleBackground = "transparent";
+        migrated["circleBackground"] = timeline.circleBackground;
+    }
+    return Object.keys(migrated).length > 0 ? { objectName: "timeline", selector: null, properties: migrated } : null;
+}
+
+/**
+ * Replaces enumeration values the visual does not know and numbers outside their range
+ * with the defaults, so that no setting can silently switch the rendering.
+ */
+export function validateSettings(settings: VisualSettings): VisualSettings {
+    let defaults = <VisualSettings>VisualSettings.getDefault();
+
+    let timeline = settings.timeline;
+    timeline.layout = oneOf(timeline.layout, layoutModes, defaults.timeline.layout);
+    timeline.orientation = oneOf(timeline.orientation, orientations, defaults.timeline.orientation);
+    timeline.imgPosition = oneOf(timeline.imgPosition, imagePositions, defaults.timeline.imgPosition);
+    timeline.imgSizing = oneOf(timeline.imgSizing, imageSizings, defaults.timeline.imgSizing);
+    timeline.imgAlignment = oneOf(timeline.imgAlignment, alignments, defaults.timeline.imgAlignment);
+    timeline.imgHeight = inRange(timeline.imgHeight, 20, 400, defaults.timeline.imgHeight);
+    timeline.circleBackground = oneOf(timeline.circleBackground, circleBackgrounds, defaults.timeline.circleBackground);
+
+    settings.links.behavior = oneOf(settings.links.behavior, linkBehaviors, defaults.links.behavior);
+    settings.titleBar.alignment = oneOf(settings.titleBar.alignment, alignments, defaults.titleBar.alignment);
+    settings.calendar.labelFormat = oneOf(settings.calendar.labelFormat, labelFormats, defaults.calendar.labelFormat);
+    settings.calendar.fiscalYearStart = oneOf(settings.calendar.fiscalYearStart, months, defaults.calendar.fiscalYearStart);
+    settings.plan.view = oneOf(settings.plan.view, planViews, defaults.plan.view);
+
+    settings.titleBar.fontSize = inRange(settings.titleBar.fontSize, 6, 72, defaults.titleBar.fontSize);
+    settings.axis.circleRadius = inRange(settings.axis.circleRadius, 10, 60, defaults.axis.circleRadius);
+    settings.eventText.fontSize = inRange(settings.eventText.fontSize, 5, 40, defaults.eventText.fontSize);
+    settings.eventText.maxLines = Math.round(inRange(settings.eventText.maxLines, 1, 20, defaults.eventText.maxLines));
+    settings.eventText.width = inRange(settings.eventText.width, 20, 500, defaults.eventText.width);
+    settings.glyphs.circleRadius = inRange(settings.glyphs.circleRadius, 10, 150, defaults.glyphs.circleRadius);
+    settings.glyphs.circleStrokeWidth = inRange(settings.glyphs.circleStrokeWidth, 0, 20, defaults.glyphs.circleStrokeWidth);
+    settings.glyphs.ellipseRadius = inRange(settings.glyphs.ellipseRadius, 10, 150, defaults.glyphs.ellipseRadius);
+    settings.glyphs.ellipseStrokeWidth = inRange(settings.glyphs.ellipseStrokeWidth, 0, 20, defaults.glyphs.ellipseStrokeWidth);
+    settings.overview.height = inRange(settings.overview.height, 24, 200, defaults.overview.height);
+
+    return settings;
+}
+
+function oneOf<T>(value: T, allowed: T[], fallback: T): T {
+    return allowed.indexOf(value) !== -1 ? value : fallback;
+}
+
+function inRange(value: number, min: number, max: number, fallback: number): number {
+    if (typeof value !== "number" || isNaN(value)) {
+        return fallback;
+    }
+    return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,95 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import PrimitiveValue = powerbi.PrimitiveValue;
+
+export type EventStatus = 'onTrack' | 'atRisk' | 'late' | 'done';
+
+// status texts as they are commonly written, compared without case, spaces and dashes
+const statusNames: { [name: string]: EventStatus } = {
+    ontrack: 'onTrack',
+    inprogress: 'onTrack',
+    green: 'onTrack',
+    atrisk: 'atRisk',
+    amber: 'atRisk',
+    yellow: 'atRisk',
+    late: 'late',
+    delayed: 'late',
+    offtrack: 'late',
+    red: 'late',
+    done: 'done',
+    complete: 'done',
+    completed: 'done',
+    closed: 'done'
+};
+
+// icons drawn in the badges, centred on the origin and about 9 pixels across
+export const statusIcons = {
+    onTrack: 'M-4,0L3,0M0,-3L3,0L0,3',
+    atRisk: 'M0,-4.5L0,1M0,3.5L0,4',
+    late: 'M-3,-3L3,3M3,-3L-3,3',
+    done: 'M-4,0L-1.5,3L4,-3',
+    overdue: 'M-3,4.5L-3,-4.5L4,-2.5L-3,-0.5'
+};
+
+/**
+ * Returns the status a Status value stands for, or null for a status the visual does
+ * not know.
+ */
+export function parseStatus(value: string): EventStatus {
+    let name = (value || '').toLowerCase().replace(/[\s_-]+/g, '');
+    return statusNames.hasOwnProperty(name) ? statusNames[name] : null;
+}
+
+/**
+ * Reads a progress given as a fraction between 0 and 1, as a percentage up to 100 or as
+ * text such as "45%", and returns it as a fraction clamped to that range. Returns null
+ * when the value is missing or not a number.
+ */
+export function parseProgress(value: PrimitiveValue): number {
+    if (value === null || value === undefined || value === '') {
+        return null;
+    }
+    let text = String(value).trim();
+    let number = typeof value === 'number' ? value : parseFloat(text.replace('%', '').replace(',', '.'));
+    if (isNaN(number)) {
+        return null;
+    }
+    // values above 1 can only be percentages
+    let fraction = /%$/.test(text) || number > 1 ? number / 100 : number;
+    return Math.max(0, Math.min(1, fraction));
+}
+
+/**
+ * An event is overdue when its end date has passed before its progress reached 100%
+ * and its status does not say it is done. Ongoing events have no end date to pass.
+ */
+export function isOverdue(end: Date, openEnded: boolean, progress: number, status: EventStatus, today: Date): boolean {
+    return !openEnded && progress !== null && progress < 1 && status !== 'done' && end.getTime() < today.getTime();
+}
@@ -0,0 +1,98 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+"use strict";
+
+import * as d3 from 'd3';
+import { FiscalCalendar, fiscalQuarterInterval, fiscalYearInterval, formatFiscalQuarter, formatFiscalYear } from "./fiscalCalendar";
+import { Localizer } from "./localization";
+
+export interface TickLevel {
+    name: 'decade' | 'year' | 'quarter' | 'month' | 'week';
+    // approximate length of one tick step, used to pick the level for a zoom factor
+    days: number;
+    interval: d3.TimeInterval;
+    format: (d: Date) => string;
+    // interval of the alternating background bands drawn behind the axis
+    bandInterval: d3.TimeInterval;
+}
+
+/**
+ * Builds the tick levels for the given calendar; quarters, years and decades follow the
+ * fiscal year. Weeks and months are labelled the way the locale writes dates.
+ */
+export function createTickLevels(calendar: FiscalCalendar, localizer: Localizer): TickLevel[] {
+    let quarter = fiscalQuarterInterval(calendar);
+    let year = fiscalYearInterval(calendar);
+    return [{
+        name: 'week',
+        days: 7,
+        interval: d3.timeMonday,
+        format: localizer.timeLocale.format(localizer.patterns.dayMonth),
+        bandInterval: d3.timeMonth
+    }, {
+        name: 'month',
+        days: 30,
+        interval: d3.timeMonth,
+        format: localizer.timeLocale.format(localizer.patterns.monthYear),
+        bandInterval: d3.timeMonth
+    }, {
+        name: 'quarter',
+        days: 91,
+        interval: quarter,
+        format: (d: Date) => formatFiscalQuarter(d, calendar),
+        bandInterval: quarter
+    }, {
+        name: 'year',
+        days: 365,
+        interval: year,
+        format: (d: Date) => formatFiscalYear(d, calendar),
+        bandInterval: quarter
+    }, {
+        name: 'decade',
+        days: 3652,
+        interval: year.every(10),
+        format: (d: Date) => formatFiscalYear(d, calendar),
+        bandInterval: year
+    }];
+}
+
+/**
+ * Returns the finest of the tick levels whose ticks are at least `minSpacing` pixels apart on
+ * the given scale, falling back to decades for very long ranges.
+ */
+export function chooseTickLevel(scale: d3.ScaleTime<number, number>, minSpacing: number, tickLevels: TickLevel[]): TickLevel {
+    let [start, end] = scale.domain();
+    let [x0, x1] = scale.range();
+    let days = (end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24);
+    let pixelsPerDay = days > 0 ? Math.abs(x1 - x0) / days : Infinity;
+    for (let level of tickLevels) {
+        if (level.days * pixelsPerDay >= minSpacing) {
+            return level;
+        }
+    }
+    return tickLevels[tickLevels.length - 1];
+}
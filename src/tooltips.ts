@@ -0,0 +1,91 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+"use strict";
+
+import powerbi from "powerbi-visuals-api";
+import ITooltipService = powerbi.extensibility.ITooltipService;
+import VisualTooltipDataItem = powerbi.extensibility.VisualTooltipDataItem;
+import ISelectionId = powerbi.visuals.ISelectionId;
+import * as d3 from 'd3';
+import { Localizer } from "./localization";
+
+/**
+ * Shows the host tooltip for the elements of a selection while the pointer is over them.
+ * The identities are passed along so the host can show a report page tooltip instead.
+ */
+export function bindTooltips<T>(
+    selection: d3.Selection<any, T, any, any>,
+    rootElement: HTMLElement,
+    tooltipService: ITooltipService,
+    getDataItems: (d: T) => VisualTooltipDataItem[],
+    getIdentity: (d: T) => ISelectionId) {
+
+    if (!tooltipService.enabled()) {
+        return;
+    }
+
+    let coordinates = () => {
+        let [x, y] = d3.mouse(rootElement);
+        return [x, y];
+    };
+
+    selection
+        .on('mouseover.tooltip', (d: T) => {
+            tooltipService.show({
+                coordinates: coordinates(),
+                isTouchEvent: false,
+                dataItems: getDataItems(d),
+                identities: getIdentity(d) ? [getIdentity(d)] : []
+            });
+        })
+        .on('mousemove.tooltip', (d: T) => {
+            tooltipService.move({
+                coordinates: coordinates(),
+                isTouchEvent: false,
+                identities: getIdentity(d) ? [getIdentity(d)] : []
+            });
+        })
+        .on('mouseout.tooltip', () => {
+            tooltipService.hide({
+                isTouchEvent: false,
+                immediately: false
+            });
+        });
+}
+
+/**
+ * Describes the time between two dates in whole days, or in months once the range is
+ * longer than two months.
+ */
+export function formatDuration(start: Date, end: Date, localizer: Localizer): string {
+    let days = Math.round(Math.abs(end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
+    if (days < 61) {
+        return localizer.getString(days === 1 ? 'Visual_Day' : 'Visual_Days', days);
+    }
+    let months = Math.round(days / 30.44);
+    return localizer.getString('Visual_Months', months);
+}
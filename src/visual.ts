@@ -37,19 +37,75 @@ import DataView = powerbi.DataView;
 import VisualObjectInstanceEnumerationObject = powerbi.VisualObjectInstanceEnumerationObject;
 import IVisualHost = powerbi.extensibility.visual.IVisualHost;
 import DataViewObjects = powerbi.DataViewObjects;
+import DataViewCategoryColumn = powerbi.DataViewCategoryColumn;
 import IVisualEventService = powerbi.extensibility.IVisualEventService;
 import ISelectionIdBuilder = powerbi.extensibility.ISelectionIdBuilder;
 import ISelectionManager = powerbi.extensibility.ISelectionManager;
 import ISelectionId = powerbi.visuals.ISelectionId;
+import VisualTooltipDataItem = powerbi.extensibility.VisualTooltipDataItem;
 import * as d3 from 'd3';
-import { VisualSettings } from "./settings";
+import { PlanView, VisualSettings } from "./settings";
+import { migrateSettings, validateSettings } from "./settingsMigration";
+import { computeLaneLayout, computeSwimlaneLayout, defaultLaneLayoutOptions, defaultSwimlaneLayoutOptions, EventExtent, SwimlaneLayout, TimelineLayout } from "./layout";
+import { clusterEvents, ClusterResult, defaultClusterOptions, EventCluster } from "./clustering";
+import { chooseTickLevel, createTickLevels, TickLevel } from "./tickLevels";
+import { calendarYear, FiscalCalendar, fiscalYear, fiscalYearInterval } from "./fiscalCalendar";
+import { assignPaletteColors, ColorTriple, colorTripleFrom } from "./colors";
+import { LegendEntry, renderLegend } from "./legend";
+import { bindTooltips, formatDuration } from "./tooltips";
+import { SelectionController } from "./selection";
+import { resolveImageUrl, resolveLink } from "./links";
+import { parseDate } from "./parseDate";
+import { parseReferenceLines, readReferenceLines, ReferenceLine } from "./referenceLines";
+import { renderErrorMessage, renderWarningPanel, RowWarning } from "./warningPanel";
+import { Localizer } from "./localization";
+import { AxisPoint, collectChain, Dependency, indexObstacles, Obstacle, ObstacleIndex, parseDependsOn, resolveDependencies, routeDependency } from "./dependencies";
+import { buildStandaloneSvg, CsvColumn, downloadFile, ExportBanner, ExportFormat, getExportFormats, rasterizeSvg, renderExportMenu, toCsv } from "./exportTimeline";
+import { computeSlip, formatSlip, renderPlanViewToggle, Slip } from "./planView";
+import { computeDensity, createDateRangeFilter, getFilterTarget, isSameRange, readDateRangeFilter, renderOverview } from "./overview";
+import { IFilterColumnTarget } from "powerbi-models";
+import { isOverdue, parseProgress, parseStatus, statusIcons } from "./status";
 import * as sanitizeHtml from 'sanitize-html';
 
+export type EventType = 'milestone' | 'range' | 'ongoing';
+
+export type EventGlyph = 'circle' | 'diamond' | 'pill' | 'bar' | 'ellipse';
+
 export interface TimelineData {
     Title: String;
     Description: string;
     EventStartDate: Date;
+    // for open-ended events this is today, or the start date when the event starts later
     EventEndDate: Date;
+    EventType: EventType;
+    // true when the event has no end date
+    OpenEnded: boolean;
+    // dates from the Planned Start and Planned End fields, null when the event has no plan
+    PlannedStartDate: Date;
+    PlannedEndDate: Date;
+    // completion between 0 and 1, null when the event has no Progress value that can be read
+    Progress: number;
+    // Status value as given, null when there is none
+    Status: string;
+    // true when the end date passed before the event was completed
+    Overdue: boolean;
+    // glyph chosen through the Event Type role, null to derive it from the event type
+    Glyph: EventGlyph;
+    Category: string;
+    // swimlane the event is drawn in; null when no Group field is bound
+    Group: string;
+    // identifies the event in Depends On values; null when it has no ID
+    EventId: string;
+    // IDs of the events this event depends on
+    DependsOn: string[];
+    // values of the fields in the Tooltips role
+    Tooltips: VisualTooltipDataItem[];
+    // false when another visual highlights data that excludes this event
+    Highlighted: boolean;
+    // link opened by clicking the event's circle or ellipse
+    URL: string;
+    // image drawn inside the glyph, null when there is none that may be loaded
+    ImageUrl: string;
     selectionId: powerbi.visuals.ISelectionId;
 }
 
@@ -57,6 +113,55 @@ export interface Timelines {
     Timeline: TimelineData[];
 }
 
+interface ColorEntry extends LegendEntry {
+    // identity the picked colour is persisted against, null for events without a category
+    // (keyed by their title), which cannot be given a colour in the Colors pane
+    selectionId: ISelectionId;
+}
+
+// the setters a selection and its transition have in common, so that one code path
+// places elements whether or not the render is animated
+interface Placeable<D> {
+    attr(name: string, value: null | string | number | boolean | ((datum: D, index: number) => null | string | number | boolean)): Placeable<D>;
+    style(name: string, value: null | string | number | boolean | ((datum: D, index: number) => null | string | number | boolean)): Placeable<D>;
+    call(func: (target: Placeable<D>) => void): Placeable<D>;
+}
+
+interface LabelLayout {
+    textX: number;
+    textY: number;
+    textWidth: number;
+    textHeight: number;
+    // centre and radius of the event image, null when no Image URL field is bound
+    image: { x: number, y: number, r: number };
+}
+
+// the dates an event is drawn at and the type they make it
+interface EventDates {
+    start: Date;
+    end: Date;
+    type: EventType;
+}
+
+interface StatusBadge {
+    // centre of the badge in the coordinates of the event group
+    x: number;
+    y: number;
+    color: string;
+    // null for a status the visual has no icon for
+    icon: string;
+}
+
+interface EventGeometry {
+    shape: EventGlyph;
+    x: number;
+    cx: number;
+    rx: number;
+    ry: number;
+    textX: number;
+    textWidth: number;
+}
+
 export function logExceptions(): MethodDecorator {
     return (target: Object, propertyKey: string, descriptor: TypedPropertyDescriptor<any>)
         : TypedPropertyDescriptor<any> => {
@@ -66,9 +171,12 @@ export function logExceptions(): MethodDecorator {
                 try {
                     return descriptor.value.apply(this, arguments);
                 } catch (e) {
-                    // this.svg.append('text').text(e).style("stroke","black")
-                    // .attr("dy", "1em");
-                    throw e;
+                    if (this && typeof this.showException === 'function') {
+                        this.showException(e);
+                    }
+                    else {
+                        throw e;
+                    }
                 }
             }
         };
@@ -89,32 +197,110 @@ export function getCategoricalObjectValue<T>(objects: DataViewObjects, index: nu
 }
 
 export class Visual implements IVisual {
+    private static animationDuration = 400;
+    // larger data sets are not animated, which keeps their renders fast
+    private static maxAnimatedEvents = 500;
     private target: d3.Selection<HTMLElement, any, any, any>;
     private header: d3.Selection<HTMLElement, any, any, any>;
     private footer: d3.Selection<HTMLElement, any, any, any>;
     private svg: d3.Selection<SVGElement, any, any, any>;
+    // strip under the timeline with the event density and the date range brush
+    private overview: d3.Selection<SVGElement, any, any, any>;
     private margin = { top: 50, right: 40, bottom: 50, left: 40 };
     private settings: VisualSettings;
     private host: IVisualHost;
     private initLoad = false;
     private events: IVisualEventService;
+    // maps dates to positions along the axis, which runs down the canvas in vertical orientation
     private xScale: d3.ScaleTime<number, number>;
+    private baseXScale: d3.ScaleTime<number, number>;
+    private zoom: d3.ZoomBehavior<SVGElement, any>;
+    private zoomTransform: d3.ZoomTransform = d3.zoomIdentity;
+    private tickLevel: TickLevel;
+    private calendar: FiscalCalendar = calendarYear;
+    private tickLevels: TickLevel[];
     private yScale: d3.ScaleLinear<number, number>;
     private gbox: d3.Selection<SVGElement, any, any, any>;
-    private colors: any[];
+    private layout: TimelineLayout<TimelineData | EventCluster<TimelineData>>;
+    private timelineData: TimelineData[] = [];
+    private dependencies: Dependency<TimelineData>[] = [];
+    // keys the events are joined on between renders, see assignEventKeys
+    private eventKeys = new Map<TimelineData, string>();
+    private referenceLines: ReferenceLine[] = [];
+    private viewport: powerbi.IViewport;
+    private isTruncated = false;
+    // rows in the data view, including those skipped as invalid
+    private loadedRowCount = 0;
+    private expandedClusters = new Set<string>();
+    private collapsedSwimlanes = new Set<string>();
+    // width of the sticky label column in swimlane mode
+    private swimlaneLabelWidth = 140;
+    private isVertical = false;
+    // height taken by the header or footer banner, 0 when no banner is shown
+    private bannerHeight = 0;
+    // true when an Image URL field is bound
+    private showImages = false;
+    // true when a Planned Start field is bound
+    private hasPlans = false;
+    // column the brushed range filters, null when the Start Date field cannot be filtered
+    private filterTarget: IFilterColumnTarget = null;
+    // brushed range, null when the other visuals are not filtered
+    private brushRange: [Date, Date] = null;
+    // whether the current render moves and fades the joined elements
+    private animate = false;
+    // what the content of each event group was last drawn from
+    private contentKey = d3.local<string>();
+    private updateOptions: VisualUpdateOptions;
+    private warnings: RowWarning[] = [];
+    private warningsDismissed = false;
+    private colorEntries: ColorEntry[] = [];
+    private colorMap = new Map<string, ColorEntry>();
+    // true while there is no data view to draw, in which case zooming has nothing to move
+    private isCleared = true;
+    private highlightedColorKey: string = null;
     // private selectionIdBuilder: ISelectionIdBuilder;
     private selectionManager: ISelectionManager;
+    private selection: SelectionController<TimelineData>;
+    // foreground and background colours of the host's high-contrast theme, null otherwise
+    private highContrast: { foreground: string, background: string } = null;
+    // strings and date formats in the language of the report
+    private localizer: Localizer;
 
     constructor(options: VisualConstructorOptions) {
         console.log('Visual Constructor', options);
         this.target = d3.select(options.element);
         this.header = d3.select(options.element).append('div').attr('class', 'header');
         this.svg = d3.select(options.element).append('svg');
+        this.overview = d3.select(options.element).append<SVGElement>('svg').attr('class', 'overview');
         this.footer = d3.select(options.element).append('div').attr('class', 'footer');
         this.host = options.host;
         this.events = options.host.eventService;
+        this.localizer = new Localizer(options.host.locale, options.host.createLocalizationManager());
+        this.tickLevels = createTickLevels(this.calendar, this.localizer);
+        // the chart itself stays left to right; its HTML text and controls follow the language
+        this.target.attr('dir', this.localizer.isRightToLeft ? 'rtl' : 'ltr');
         // this.selectionIdBuilder = options.host.createSelectionIdBuilder();
         this.selectionManager = options.host.createSelectionManager();
+        this.selection = new SelectionController<TimelineData>(this.selectionManager);
+        this.svg
+            .attr('role', 'listbox')
+            .attr('aria-multiselectable', 'true')
+            .on('click', () => this.selection.clear())
+            .on('contextmenu', () => {
+                let e: MouseEvent = d3.event;
+                this.selectionManager.showContextMenu({}, { x: e.clientX, y: e.clientY });
+                e.preventDefault();
+            });
+
+        this.zoom = d3.zoom<SVGElement, any>()
+            .scaleExtent([1, 1000])
+            .on('zoom', () => {
+                this.zoomTransform = d3.event.transform;
+                if (!this.isCleared) {
+                    this.render(false);
+                }
+            });
+        this.svg.call(this.zoom).on('dblclick.zoom', null);
     }
 
     @logExceptions()
@@ -122,202 +308,582 @@ export class Visual implements IVisual {
         console.log('Visual Update ', options);
         debugger;
         this.events.renderingStarted(options);
-        this.settings = Visual.parseSettings(options && options.dataViews && options.dataViews[0]);
+        this.updateOptions = options;
+        this.target.selectAll('.error-message').remove();
+        let dataView = options && options.dataViews && options.dataViews[0];
+        this.settings = this.parseSettings(dataView);
+        this.viewport = options.viewport;
+        // a visual that was just added, or whose Start Date field is not bound yet, has nothing to draw
+        if (!dataView || !dataView.table || !dataView.table.columns.some(column => column.roles.hasOwnProperty('EventStartDate'))) {
+            this.clear();
+            this.events.renderingFinished(options);
+            return;
+        }
+        this.isCleared = false;
+
+        // the data view only holds a window of the rows while a segment is reported;
+        // the host answers false once it refuses to load any more of them
+        this.isTruncated = !!dataView.metadata.segment && !this.host.fetchMoreData();
+        this.loadedRowCount = dataView.table.rows.length;
+
+        let fiscalYearStart = parseInt(this.settings.calendar.fiscalYearStart, 10);
+        this.calendar = {
+            startMonth: fiscalYearStart >= 1 && fiscalYearStart <= 12 ? fiscalYearStart - 1 : 0,
+            labelFormat: this.settings.calendar.labelFormat
+        };
+        this.tickLevels = createTickLevels(this.calendar, this.localizer);
+
+        let colorPalette = this.host.colorPalette;
+        this.highContrast = colorPalette.isHighContrast ? {
+            foreground: colorPalette.foreground.value,
+            background: colorPalette.background.value
+        } : null;
+
+        let warnings: RowWarning[] = [];
+        this.timelineData = Visual.CONVERTER(dataView, this.host, warnings, this.localizer);
+        this.showImages = dataView.table.columns.some(column => column.roles.hasOwnProperty('ImageUrl'));
+        this.hasPlans = dataView.table.columns.some(column => column.roles.hasOwnProperty('PlannedStart'));
+        this.filterTarget = getFilterTarget(dataView.table.columns.find(column => column.roles.hasOwnProperty('EventStartDate')));
+        // a range filtered in an earlier session, or cleared elsewhere in the report, moves the brush and the view
+        let brushRange = readDateRangeFilter(options.jsonFilters);
+        let restoreRange = !isSameRange(brushRange, this.brushRange);
+        this.brushRange = brushRange;
+        this.assignEventKeys();
+        this.resolveDependencies();
+        this.referenceLines = [
+            ...parseReferenceLines(this.settings.references.lines, this.host.locale),
+            ...readReferenceLines(dataView.table, this.host.locale)
+        ];
+        if (warnings.length !== this.warnings.length) {
+            this.warningsDismissed = false;
+        }
+        this.warnings = warnings;
+        renderWarningPanel(this.target, this.warningsDismissed ? [] : warnings, this.localizer, () => this.warningsDismissed = true);
+        this.buildColorEntries(this.timelineData, dataView.categorical && dataView.categorical.categories ? dataView.categorical.categories[0] : null);
+
+        this.renderBanner(dataView);
+
+        renderExportMenu(this.target, this.settings.export.show && this.host.allowInteractions ? getExportFormats(this.host) : [], this.localizer, format => this.exportTimeline(format));
+
+        this.renderPlanViewToggle();
+
+        this.render();
+
+        this.renderOverview();
+        if (restoreRange) {
+            this.zoomToRange(this.brushRange);
+        }
+
+        this.events.renderingFinished(options);
+    }
+
+    /**
+     * Empties the visual, keeping the settings, while there is no data to draw.
+     */
+    private clear() {
+        this.isCleared = true;
+        this.timelineData = [];
+        this.dependencies = [];
+        this.referenceLines = [];
+        this.colorEntries = [];
+        this.colorMap = new Map();
+        this.warnings = [];
         this.svg.selectAll('*').remove();
-        let _this = this;
-        let vpWidth = (options.viewport.width - 0);
-        let vpHeight = (options.viewport.height - 110);
-        this.svg.attr('height', vpHeight);
-        this.svg.attr('width', vpWidth);
+        this.overview.style('display', 'none').selectAll('*').remove();
+        [this.header, this.footer].forEach(banner => banner.style('display', 'none').selectAll('*').remove());
+        this.bannerHeight = 0;
+        renderWarningPanel(this.target, [], this.localizer, () => undefined);
+        renderExportMenu(this.target, [], this.localizer, () => undefined);
+        renderPlanViewToggle(this.target, false, this.settings.plan.view, this.localizer, () => undefined);
+    }
 
-        let gHeight = vpHeight - this.margin.top - this.margin.bottom;
-        let gWidth = vpWidth - this.margin.left - this.margin.right;
+    /**
+     * Shows the banner image from the Banner Image field, or else from the settings, in
+     * the header or the footer. Nothing is shown, and no space is reserved, when the
+     * banner is off or there is no image URL that may be loaded.
+     */
+    private renderBanner(dataView: DataView) {
+        let timeline = this.settings.timeline;
+        let url = resolveImageUrl(Visual.getBannerImageUrl(dataView) || timeline.imgUrl);
+        let position = url ? timeline.imgPosition : 'off';
+        this.bannerHeight = position === 'off' ? 0 : timeline.imgHeight;
+
+        [this.header, this.footer].forEach((banner) => {
+            banner.selectAll('*').remove();
+            banner.style('display', 'none');
+        });
+        if (position === 'off') {
+            return;
+        }
 
-        let timelineData = Visual.CONVERTER(options.dataViews[0], this.host);
-        timelineData = timelineData.slice(0, 100);
-        let minDate, maxDate;
+        let fits = { fit: 'contain', fill: 'cover', center: 'none' };
+        (position === 'header' ? this.header : this.footer)
+            .style('display', null)
+            .style('height', this.bannerHeight + 'px')
+            .append('img')
+            .attr('src', url)
+            .attr('alt', '')
+            .style('object-fit', fits[timeline.imgSizing])
+            .style('object-position', timeline.imgAlignment + ' center');
+    }
 
-        minDate = new Date(Math.min.apply(null, timelineData.map(d => d.EventStartDate)));
-        maxDate = new Date(Math.max.apply(null, timelineData.map(d => d.EventEndDate)));
-        minDate = new Date(minDate.getFullYear(), 0, 1);
-        maxDate = new Date(maxDate.getFullYear() + 1, 0, 1);
+    private static getBannerImageUrl(dataView: DataView): string {
+        let table = dataView.table;
+        let index = table.columns.findIndex(column => column.roles.hasOwnProperty('BannerImage'));
+        if (index === -1) {
+            return null;
+        }
+        let row = table.rows.find(r => !Visual.isMissing(r[index]));
+        return row ? row[index].toString() : null;
+    }
 
-        let months = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+    // dependencies are violated or not depending on the dates the events are drawn at
+    private resolveDependencies() {
+        this.dependencies = resolveDependencies(this.timelineData, d => d.EventId, d => d.DependsOn, d => this.getEventKey(d),
+            d => this.getDrawnDates(d).start, d => this.getDrawnDates(d).end);
+    }
 
-        let colors = this.getColors();
+    /**
+     * Shows the buttons that switch between planned and actual dates. The view picked is
+     * saved with the report, which then updates the visual again.
+     */
+    private renderPlanViewToggle() {
+        let show = this.hasPlans && this.settings.plan.showToggle && this.host.allowInteractions;
+        renderPlanViewToggle(this.target, show, this.settings.plan.view, this.localizer, (view: PlanView) => {
+            this.settings.plan.view = view;
+            this.host.persistProperties({
+                merge: [{ objectName: 'plan', selector: null, properties: { view: view } }]
+            });
+            this.resolveDependencies();
+            this.renderPlanViewToggle();
+            this.render();
+            this.renderOverview();
+        });
+    }
 
-        let titleData = timelineData.map(d => d.Title).filter((v, i, self) => self.indexOf(v) === i);
+    private getOverviewHeight(): number {
+        return this.settings.overview.show ? this.settings.overview.height : 0;
+    }
 
-        let titleColorData = titleData.map((d, i) => {
-            return {
-                title: d,
-                color: colors[i]
-            };
+    /**
+     * Shows the event density over the whole date domain under the timeline. Brushing a
+     * range zooms the timeline to it and filters the other visuals on the Start Date
+     * field; clearing the brush removes the filter.
+     */
+    private renderOverview() {
+        let show = this.settings.overview.show;
+        this.overview.style('display', show ? null : 'none');
+        if (!show) {
+            this.overview.selectAll('*').remove();
+            return;
+        }
+        let footerHeight = this.footer.style('display') !== 'none' ? this.bannerHeight : 0;
+        this.overview.style('bottom', footerHeight + 'px');
+
+        let domain = <[Date, Date]>this.baseXScale.domain();
+        let width = this.viewport.width;
+        let bins = computeDensity(this.timelineData, d => this.getDrawnDates(d).start, d => this.getDrawnDates(d).end,
+            domain, Math.floor(width / 8));
+        renderOverview(this.overview, domain, bins, {
+            width: width,
+            height: this.settings.overview.height,
+            padding: this.margin.left,
+            barColor: this.contrastColor('#a19f9d', 'foreground'),
+            range: this.brushRange,
+            interactive: this.host.allowInteractions,
+            label: this.localizer.getString('Visual_Overview'),
+            onBrush: range => this.zoomToRange(range),
+            onBrushEnd: (range) => {
+                this.brushRange = range;
+                if (range && this.filterTarget) {
+                    this.host.applyJsonFilter(createDateRangeFilter(this.filterTarget, range), 'general', 'filter', powerbi.FilterAction.merge);
+                }
+                else {
+                    this.host.applyJsonFilter(null, 'general', 'filter', powerbi.FilterAction.remove);
+                }
+                this.zoomToRange(range);
+            }
         });
+    }
 
-        if (this.settings.timeline.layout.toLowerCase() === 'header') {
-            this.header
-                .html(() => {
-                    return '<img src="' + _this.settings.timeline.imgUrl + '"/>';
-                });
-            this.footer.remove();
+    /**
+     * Zooms the timeline so the range fills its axis, or all the way out when the range
+     * is null.
+     */
+    private zoomToRange(range: [Date, Date]) {
+        let transform = d3.zoomIdentity;
+        if (range) {
+            let [rangeStart, rangeEnd] = this.baseXScale.range();
+            let [x0, x1] = range.map(date => this.baseXScale(date));
+            let [minScale, maxScale] = this.zoom.scaleExtent();
+            let k = Math.max(minScale, Math.min(maxScale, (rangeEnd - rangeStart) / Math.max(1, x1 - x0)));
+            let t = rangeStart - k * x0;
+            transform = this.isVertical ? d3.zoomIdentity.translate(0, t).scale(k) : d3.zoomIdentity.translate(t, 0).scale(k);
+        }
+        this.svg.call(this.zoom.transform, transform);
+    }
+
+    /**
+     * Called by `logExceptions` with an error thrown while updating, which is then shown
+     * in the visual instead of being rethrown to the host.
+     */
+    public showException(e: any) {
+        renderErrorMessage(this.target, e, this.localizer);
+        if (this.updateOptions) {
+            this.events.renderingFailed(this.updateOptions, e && e.message ? e.message : String(e));
+        }
+    }
+
+    /**
+     * Redraws the timeline. The connectors, events and clusters are joined to their data
+     * and kept between renders; `animate` is false while zooming and panning.
+     */
+    private render(animate = true) {
+        this.animate = animate && this.settings.timeline.animate && this.timelineData.length <= Visual.maxAnimatedEvents;
+        this.svg.selectAll(':scope > :not(.event-layer)').remove();
+        this.svg.classed('high-contrast', !!this.highContrast);
+        let vpWidth = (this.viewport.width - 0);
+        let vpHeight = (this.viewport.height - this.bannerHeight - this.getOverviewHeight());
+        this.svg.attr('height', vpHeight);
+        this.svg.attr('width', vpWidth);
+
+        let gHeight = vpHeight - this.margin.top - this.margin.bottom;
+        let gWidth = vpWidth - this.margin.left - this.margin.right;
+
+        let timelineData = this.timelineData;
+        let [minDate, maxDate] = this.getDateDomain(timelineData);
+
+        let legendHeight = this.settings.legend.show ? this.renderLegend(vpWidth) : 0;
+
+        let isSwimlanes = this.settings.timeline.layout === 'swimlanes';
+        // swimlanes are always laid out horizontally
+        this.isVertical = !isSwimlanes && this.isVerticalOrientation();
+        if (this.isVertical) {
+            let top = this.getTitleHeight() + legendHeight;
+            this.createScales(minDate, maxDate, top + 40, vpHeight - 40, gHeight);
         }
         else {
-            this.footer
-                .html(() => {
-                    return '<img src="' + _this.settings.timeline.imgUrl + '"/>';
-                });
-            this.header.remove();
+            // in swimlane mode the axis starts right of the sticky lane labels
+            this.createScales(minDate, maxDate, isSwimlanes ? this.swimlaneLabelWidth : this.margin.left, gWidth, gHeight);
+        }
+
+        let { clustered, swimlanes } = this.layoutEvents(timelineData, vpWidth, vpHeight, gHeight, legendHeight, isSwimlanes);
+        // lanes that do not fit in the viewport extend the canvas, which then scrolls
+        if (this.isVertical) {
+            this.target
+                .style('overflow-x', this.layout.height > vpWidth ? 'auto' : 'hidden')
+                .style('overflow-y', 'hidden');
+            vpWidth = this.layout.height;
+            this.svg.attr('width', vpWidth);
+        }
+        else {
+            this.target
+                .style('overflow-x', 'hidden')
+                .style('overflow-y', this.layout.height > vpHeight ? 'auto' : 'hidden');
+            vpHeight = this.layout.height;
+            this.svg.attr('height', vpHeight);
         }
+        this.zoom
+            .extent([[0, 0], [vpWidth, vpHeight]])
+            .translateExtent([[0, 0], [vpWidth, vpHeight]]);
 
-        this.renderXandYAxis(minDate, maxDate, gWidth, gHeight);
+        this.renderXandYAxis();
 
         this.renderTitle(vpWidth);
 
-        this.defineSVGDefs(titleColorData);
+        this.renderResetViewControl(vpWidth);
+
+        this.defineSVGDefs();
 
         this.renderXAxisCirclesAndQuarters();
 
-        this.renderTimeRangeLines(gHeight, timelineData);
+        this.renderReferenceLines(legendHeight, vpWidth, vpHeight);
 
-        this.renderCircles(timelineData, titleColorData);
+        if (isSwimlanes) {
+            this.renderSwimlaneBands(swimlanes, vpWidth);
+        }
+
+        // the kept layers go above the redrawn axis and below the labels drawn after them
+        ['connectors', 'plans', 'events', 'dependencies', 'clusters'].forEach(name => this.getLayer(name).raise());
+
+        // events in swimlanes are not connected to the axis
+        this.renderTimeRangeLines(isSwimlanes ? [] : clustered.events);
+
+        this.renderPlans(clustered.events);
 
-        this.renderEllipses(titleColorData);
+        this.renderEvents(clustered.events);
 
-        this.renderText(titleColorData);
+        this.renderDependencies(clustered.events);
+
+        bindTooltips(this.gbox, this.target.node(), this.host.tooltipService,
+            (d: TimelineData) => this.getTooltipData(d), (d: TimelineData) => d.selectionId);
+
+        this.renderClusters(clustered.clusters);
+
+        if (isSwimlanes) {
+            this.renderSwimlaneLabels(swimlanes);
+        }
 
         this.handleHyperLinkClick();
 
+        this.selection.bind(this.svg.selectAll('.box, .line'));
+
+        if (this.isTruncated) {
+            this.renderNotice(this.localizer.getString('Visual_RowsTruncated', this.loadedRowCount), vpWidth);
+        }
+
         this.renderVisualBorder(vpWidth, vpHeight);
+    }
 
-        this.events.renderingFinished(options);
+    /**
+     * Clusters the visible events and places them in lanes around the axis, or in their
+     * swimlanes, storing the result in `layout`.
+     */
+    private layoutEvents(timelineData: TimelineData[], vpWidth, vpHeight, gHeight, legendHeight, isSwimlanes: boolean)
+        : { clustered: ClusterResult<TimelineData>, swimlanes: SwimlaneLayout[] } {
+
+        // only the events that reach into the visible part of the axis are drawn
+        let isVisible = (d: TimelineData) => {
+            let extent = this.getEventExtent(d);
+            return extent.x1 >= 0 && extent.x0 <= (this.isVertical ? vpHeight : vpWidth);
+        };
+        let cluster = (items: TimelineData[]) => clusterEvents(items, d => this.getEventGeometry(d).x, d => this.getEventKey(d),
+            this.expandedClusters, defaultClusterOptions);
+        let extentOf = (d: TimelineData | EventCluster<TimelineData>) => {
+            return Visual.isCluster(d) ? this.getClusterExtent(d) : this.getEventExtent(d);
+        };
+
+        let clustered: ClusterResult<TimelineData> = { events: [], clusters: [] };
+        let swimlanes: SwimlaneLayout[] = [];
+        if (isSwimlanes) {
+            // the axis sits under the title bar, with the swimlanes stacked below it
+            let axisY = this.getTitleHeight() + legendHeight + this.settings.axis.circleRadius + 5;
+            let layout = computeSwimlaneLayout(this.getSwimlaneGroups(timelineData).map((group) => {
+                let collapsed = this.collapsedSwimlanes.has(group.key);
+                let laneClustered = cluster(collapsed ? [] : group.events.filter(isVisible));
+                clustered.events.push(...laneClustered.events);
+                clustered.clusters.push(...laneClustered.clusters);
+                return {
+                    key: group.key,
+                    items: [...laneClustered.events, ...laneClustered.clusters],
+                    count: group.events.length,
+                    collapsed: collapsed
+                };
+            }), extentOf, {
+                ...defaultSwimlaneLayoutOptions,
+                rowPitch: this.getLaneSpacing().lanePitch,
+                top: axisY + this.settings.axis.circleRadius + 5,
+                height: vpHeight
+            });
+            swimlanes = layout.swimlanes;
+            this.layout = { ...layout, axisY: axisY };
+        }
+        else if (this.isVertical) {
+            // lanes run left and right of a spine in the middle of the canvas
+            clustered = cluster(timelineData.filter(isVisible));
+            let layoutItems: (TimelineData | EventCluster<TimelineData>)[] = [...clustered.events, ...clustered.clusters];
+            this.layout = computeLaneLayout(layoutItems, extentOf, {
+                ...defaultLaneLayoutOptions,
+                ...this.getLaneSpacing(),
+                top: 10,
+                axisY: vpWidth / 2,
+                height: vpWidth
+            });
+        }
+        else {
+            clustered = cluster(timelineData.filter(isVisible));
+            let layoutItems: (TimelineData | EventCluster<TimelineData>)[] = [...clustered.events, ...clustered.clusters];
+            this.layout = computeLaneLayout(layoutItems, extentOf, {
+                ...defaultLaneLayoutOptions,
+                ...this.getLaneSpacing(),
+                top: this.getTitleHeight() + legendHeight,
+                axisY: (gHeight / 2) + 65 + legendHeight,
+                height: vpHeight
+            });
+        }
+        return { clustered, swimlanes };
     }
 
-    private getColors() {
-        return [{
-            dark: '#3F5003',
-            light: '#D0E987',
-            medium: '#AFD045'
-        }, {
-            dark: '#252D48',
-            light: '#81909F',
-            medium: '#3B4D64'
-        }, {
-            dark: '#8D4F0F',
-            light: '#D8A26D',
-            medium: '#C87825'
-        }, {
-            dark: '#337779',
-            light: '#B2DFE0',
-            medium: '#6FCBCC'
-        }, {
-            dark: '#003366',
-            light: '#66ffff',
-            medium: '#4791AE'
-        }, {
-            dark: 'rgba(49, 27, 146,1)',
-            light: 'rgba(49, 27, 146,0.2)',
-            medium: 'rgba(49, 27, 146,0.5)'
-        }, {
-            dark: 'rgba(245, 127, 23,1)',
-            light: 'rgba(245, 127, 23,0.2)',
-            medium: 'rgba(245, 127, 23,0.5)'
-        }, {
-            dark: 'rgba(183, 28, 28,1)',
-            light: 'rgba(183, 28, 28,0.2)',
-            medium: 'rgba(183, 28, 28,0.5)'
-        }, {
-            dark: 'rgba(136, 14, 79,1)',
-            light: 'rgba(136, 14, 79,0.2)',
-            medium: 'rgba(136, 14, 79,0.5)'
-        }, {
-            dark: 'rgba(27, 94, 32,1)',
-            light: 'rgba(27, 94, 32,0.2)',
-            medium: 'rgba(27, 94, 32,0.5)'
-        }, {
-            dark: 'rgba(255, 0, 0,1)',
-            light: 'rgba(255, 0, 0,0.2)',
-            medium: 'rgba(255, 0, 0,0.5)'
-        }, {
-            dark: 'rgba(0, 0, 255,1)',
-            light: 'rgba(0, 0, 255,0.2)',
-            medium: 'rgba(0, 0, 255,0.5)'
-        }, {
-            dark: 'rgba(0, 255, 0,1)',
-            light: 'rgba(0, 255, 0,0.2)',
-            medium: 'rgba(0, 255, 0,0.5)'
-        }, {
-            dark: 'rgba(94, 89, 27,1)',
-            light: 'rgba(94, 89, 27,0.2)',
-            medium: 'rgba(94, 89, 27,0.5)'
-        }, {
-            dark: 'rgba(27, 94, 91,1)',
-            light: 'rgba(27, 94, 91,0.2)',
-            medium: 'rgba(27, 94, 91,0.5)'
-        }, {
-            dark: 'rgba(11, 101, 153,1)',
-            light: 'rgba(11, 101, 153,0.2)',
-            medium: 'rgba(11, 101, 153,0.5)'
-        }, {
-            dark: 'rgba(11, 45, 153,1)',
-            light: 'rgba(11, 45, 153,0.2)',
-            medium: 'rgba(11, 45, 153,0.5)'
-        }, {
-            dark: 'rgba(114, 11, 153,1)',
-            light: 'rgba(114, 11, 153,0.2)',
-            medium: 'rgba(114, 11, 153,0.5)'
-        }, {
-            dark: 'rgba(153, 11, 134,1)',
-            light: 'rgba(153, 11, 134,0.2)',
-            medium: 'rgba(153, 11, 134,0.5)'
-        }, {
-            dark: 'rgba(249, 5, 134,1)',
-            light: 'rgba(249, 5, 134,0.2)',
-            medium: 'rgba(249, 5, 134,0.5)'
-        }];
+    /**
+     * Returns the lane spacing, widened when the glyphs are drawn larger than the default.
+     */
+    private getLaneSpacing(): { lanePitch: number, eventRadius: number, firstLaneOffset: number } {
+        let radius = Math.max(this.settings.glyphs.circleRadius, this.settings.glyphs.ellipseRadius);
+        return {
+            lanePitch: Math.max(defaultLaneLayoutOptions.lanePitch, 2 * radius + 5),
+            eventRadius: Math.max(defaultLaneLayoutOptions.eventRadius, radius + 5),
+            firstLaneOffset: Math.max(defaultLaneLayoutOptions.firstLaneOffset, radius + 50)
+        };
     }
 
-    private renderXandYAxis(minDate, maxDate, gWidth, gHeight) {
-        let xAxis;
-        this.xScale = d3.scaleTime()
-            .domain([minDate, maxDate])
-            .range([this.margin.left, gWidth]);
+    private getTitleHeight(): number {
+        let titleBar = this.settings.titleBar;
+        return titleBar.show ? Math.max(35, Math.round(Visual.pointsToPixels(titleBar.fontSize)) + 11) : 0;
+    }
+
+    // font sizes in the formatting pane are given in points
+    private static pointsToPixels(points: number): number {
+        return points * 4 / 3;
+    }
+
+    private getEventTextLineHeight(): number {
+        return Math.round(Visual.pointsToPixels(this.settings.eventText.fontSize) * 1.2);
+    }
 
-        if (this.diff_years(minDate, maxDate) <= 1) {
-            xAxis = d3.axisBottom(this.xScale)
-                .ticks(d3.timeMonth, 1)
-                .tickPadding(20)
-                .tickFormat(d3.timeFormat("%b'%y"))
-                .tickSize(-10);
+    private getEventTextHeight(): number {
+        return this.getEventTextLineHeight() * Math.max(1, this.settings.eventText.maxLines);
+    }
+
+    /**
+     * Returns the whole fiscal years spanned by the events, including the planned dates
+     * that are drawn, or the current fiscal year without events.
+     */
+    private getDateDomain(timelineData: TimelineData[]): [Date, Date] {
+        let minDate, maxDate;
+        if (timelineData.length > 0) {
+            let dates = timelineData.map(d => this.getDrawnDates(d));
+            if (this.settings.plan.view === 'both') {
+                dates.push(...timelineData.filter(d => !!d.PlannedStartDate).map(d => this.getPlannedDates(d)));
+            }
+            minDate = new Date(Math.min.apply(null, dates.map(dd => dd.start)));
+            maxDate = new Date(Math.max.apply(null, dates.map(dd => dd.end)));
         }
         else {
-            xAxis = d3.axisBottom(this.xScale)
-                .ticks(d3.timeYear, 1)
-                .tickPadding(20)
-                .tickFormat(d3.timeFormat('%Y'))
-                .tickSize(-10);
+            minDate = maxDate = new Date();
         }
+        let year = fiscalYearInterval(this.calendar);
+        return [year.floor(minDate), year.offset(year.floor(maxDate), 1)];
+    }
 
-        let xAxisAllTicks = d3.axisBottom(this.xScale)
-            .ticks(d3.timeMonth, 3)
-            .tickPadding(20)
-            .tickFormat(d3.timeFormat(""))
-            .tickSize(10);
+    /**
+     * Builds the legend entries. Colours picked in the Colors pane are stored against the
+     * categorical column of the Category field, or of the Title field when no category is
+     * bound, so they follow the value rather than the first row that carries it.
+     */
+    private buildColorEntries(timelineData: TimelineData[], colorColumn: DataViewCategoryColumn) {
+        let keys = timelineData.map(d => Visual.getColorKey(d)).filter((v, i, self) => self.indexOf(v) === i);
+        let paletteColors = assignPaletteColors(keys);
+        let columnIndexes = new Map<string, number>();
+        if (colorColumn) {
+            colorColumn.values.forEach((value, i) => {
+                if (value !== null && value !== undefined) {
+                    columnIndexes.set(value.toString(), i);
+                }
+            });
+        }
+
+        this.colorEntries = keys.map((key) => {
+            let index = columnIndexes.get(key);
+            if (index === undefined) {
+                return { key: key, color: paletteColors.get(key), selectionId: null };
+            }
+            let objects = colorColumn.objects ? colorColumn.objects[index] : null;
+            let fill = getCategoricalObjectValue<powerbi.Fill>(objects, index, 'dataPoint', 'fill', null);
+            return {
+                key: key,
+                color: fill && fill.solid && fill.solid.color ? colorTripleFrom(fill.solid.color) : paletteColors.get(key),
+                selectionId: this.host.createSelectionIdBuilder().withCategory(colorColumn, index).createSelectionId()
+            };
+        });
+        if (this.highContrast) {
+            let foreground = this.highContrast.foreground;
+            this.colorEntries.forEach(c => c.color = { dark: foreground, light: foreground, medium: foreground });
+        }
+        this.colorMap = new Map(this.colorEntries.map((c): [string, ColorEntry] => [c.key, c]));
+        if (!this.colorMap.has(this.highlightedColorKey)) {
+            this.highlightedColorKey = null;
+        }
+    }
+
+    private static getColorKey(d: TimelineData): string {
+        if (d.Category !== null) {
+            return d.Category;
+        }
+        return d.Title ? d.Title.toString() : '';
+    }
+
+    /**
+     * Returns the given colour, or the matching colour of the high-contrast theme when
+     * the host has one active.
+     */
+    private contrastColor(color: string, role: 'foreground' | 'background'): string {
+        return this.highContrast ? this.highContrast[role] : color;
+    }
+
+    private getEventColor(d: TimelineData): ColorTriple {
+        return this.colorMap.get(Visual.getColorKey(d)).color;
+    }
+
+    private isDimmed(d: TimelineData): boolean {
+        return this.highlightedColorKey !== null && Visual.getColorKey(d) !== this.highlightedColorKey;
+    }
+
+    private isPast(d: TimelineData): boolean {
+        return this.settings.references.desaturatePast && !d.OpenEnded && d.EventEndDate.getTime() < Date.now();
+    }
+
+    private renderLegend(vpWidth): number {
+        let height = renderLegend(this.svg, this.colorEntries, {
+            x: 10,
+            y: this.getTitleHeight() + 6,
+            width: vpWidth - 20,
+            highlightedKey: this.highlightedColorKey,
+            textColor: this.contrastColor(null, 'foreground'),
+            blankLabel: this.localizer.getString('Visual_Blank'),
+            rightToLeft: this.localizer.isRightToLeft,
+            onClick: (entry) => {
+                this.highlightedColorKey = this.highlightedColorKey === entry.key ? null : entry.key;
+                this.render();
+            }
+        });
+        return height > 0 ? height + 6 : 0;
+    }
+
+    private isVerticalOrientation(): boolean {
+        let orientation = this.settings.timeline.orientation;
+        if (orientation === 'auto') {
+            return this.viewport.height > this.viewport.width;
+        }
+        return orientation === 'vertical';
+    }
+
+    private createScales(minDate, maxDate, rangeStart, rangeEnd, gHeight) {
+        this.baseXScale = d3.scaleTime()
+            .domain([minDate, maxDate])
+            .range([rangeStart, rangeEnd]);
+        this.xScale = this.isVertical ? this.zoomTransform.rescaleY(this.baseXScale) : this.zoomTransform.rescaleX(this.baseXScale);
 
         this.yScale = d3.scaleLinear()
             .domain([-100, 100])
             .range([gHeight, this.margin.top]);
+    }
+
+    private renderXandYAxis() {
+        let axisY = this.layout.axisY;
+        this.tickLevel = chooseTickLevel(this.xScale, 70, this.tickLevels);
+
+        let xAxis = (this.isVertical ? d3.axisRight(this.xScale) : d3.axisBottom(this.xScale))
+            .ticks(this.tickLevel.interval)
+            .tickPadding(20)
+            .tickFormat(this.settings.axis.labelFormat ? this.localizer.timeLocale.format(this.settings.axis.labelFormat) : this.tickLevel.format)
+            .tickSize(-10);
+
+        let xAxisAllTicks = (this.isVertical ? d3.axisRight(this.xScale) : d3.axisBottom(this.xScale))
+            .ticks(this.tickLevel.bandInterval)
+            .tickPadding(20)
+            .tickFormat(d3.timeFormat(""))
+            .tickSize(10);
 
         let yAxis = d3.axisLeft(this.yScale);
 
         let xAxisLineAllTicks = this.svg.append("g")
             .attr("class", "x-axis-line-allticks")
-            .attr("transform", "translate(" + (20) + "," + ((gHeight / 2) + 65) + ")")
+            .attr("transform", this.translate(20, axisY))
             .call(xAxisAllTicks);
 
         let xAxisLine = this.svg.append("g")
             .attr("class", "x-axis-line")
-            .attr("transform", "translate(" + (20) + "," + ((gHeight / 2) + 65) + ")")
+            .attr("transform", this.translate(20, axisY))
             .call(xAxis);
 
         this.svg.append("g")
@@ -327,35 +893,76 @@ export class Visual implements IVisual {
     }
 
     private renderTitle(vpWidth) {
+        let settings = this.settings.titleBar;
+        if (!settings.show) {
+            return;
+        }
+        let height = this.getTitleHeight();
         let gTitle = this.svg.append('g')
             .attr('x', 0)
             .attr('y', 0)
             .attr('width', vpWidth)
-            .attr('height', 35);
+            .attr('height', height);
 
-        gTitle.append('rect')
+        let titleBar = gTitle.append('rect')
             .attr('class', 'chart-header')
             .attr('width', vpWidth)
-            .attr('height', 35);
+            .attr('height', height)
+            .style('fill', this.contrastColor(settings.background, 'background'));
+
+        if (this.highContrast) {
+            titleBar.style('stroke', this.highContrast.foreground);
+        }
 
+        let anchors = { left: ['start', 10], center: ['middle', vpWidth / 2], right: ['end', vpWidth - 10] };
+        let [anchor, x] = anchors[settings.alignment] || anchors.center;
         gTitle.append('text')
-            .attr('x', vpWidth / 2)
-            .attr('y', 35 / 2)
+            .attr('x', x)
+            .attr('y', height / 2)
             .attr('dominant-baseline', 'middle')
-            .attr('text-anchor', 'middle')
+            .attr('text-anchor', anchor)
             .text(this.settings.timeline.title)
-            .attr('fill', '#ffffff')
-            .attr('font-size', 24);
+            .attr('fill', this.contrastColor(settings.fontColor, 'foreground'))
+            .attr('font-family', settings.fontFamily)
+            .attr('font-size', Visual.pointsToPixels(settings.fontSize));
+    }
+
+    private renderResetViewControl(vpWidth) {
+        if (this.zoomTransform.k === 1 && this.zoomTransform.x === 0) {
+            return;
+        }
+
+        let gReset = this.svg.append('g')
+            .attr('class', 'reset-view')
+            .attr('transform', 'translate(' + (vpWidth - 90) + ',' + 6 + ')')
+            .on('click', () => {
+                d3.event.stopPropagation();
+                this.svg.call(this.zoom.transform, d3.zoomIdentity);
+            });
+
+        gReset.append('rect')
+            .attr('width', 80)
+            .attr('height', 23)
+            .attr('rx', 3);
+
+        gReset.append('text')
+            .attr('x', 40)
+            .attr('y', 23 / 2)
+            .attr('dominant-baseline', 'middle')
+            .attr('text-anchor', 'middle')
+            .text(this.localizer.getString('Visual_ResetView'));
     }
 
-    private defineSVGDefs(titleColorData) {
+    private defineSVGDefs() {
         let svgDefs = this.svg.append('defs');
+        // connectors run across the axis, from left to right in vertical orientation
+        let [x2, y2] = this.isVertical ? ['100%', '0%'] : ['0%', '100%'];
 
-        titleColorData.forEach((c, i) => {
+        this.colorEntries.forEach((c, i) => {
             let linearGradientTopToBottom = svgDefs.append('linearGradient')
-                .attr('x2', '0%')
-                .attr('y2', '100%')
-                .attr('id', 'linearGradientTopToBottom' + c.title.replace(/ /g, ""));
+                .attr('x2', x2)
+                .attr('y2', y2)
+                .attr('id', 'linearGradientTopToBottom' + i);
 
             linearGradientTopToBottom.append('stop')
                 .attr('stop-color', c.color.dark)
@@ -366,9 +973,9 @@ export class Visual implements IVisual {
                 .attr('offset', '1');
 
             let linearGradientBottomToTop = svgDefs.append('linearGradient')
-                .attr('x2', '0%')
-                .attr('y2', '100%')
-                .attr('id', 'linearGradientBottomToTop' + c.title.replace(/ /g, ""));
+                .attr('x2', x2)
+                .attr('y2', y2)
+                .attr('id', 'linearGradientBottomToTop' + i);
 
             linearGradientBottomToTop.append('stop')
                 .attr('stop-color', c.color.light)
@@ -379,384 +986,1306 @@ export class Visual implements IVisual {
                 .attr('offset', '1');
         });
 
+        // arrowheads of the dependency arrows, in the colours of their paths
+        [['dependency-arrow', '#605e5c'], ['dependency-arrow-violated', '#d13438']].forEach(([id, color]) => {
+            svgDefs.append('marker')
+                .attr('id', id)
+                .attr('viewBox', '0 0 10 10')
+                .attr('refX', 9)
+                .attr('refY', 5)
+                .attr('markerWidth', 6)
+                .attr('markerHeight', 6)
+                .attr('orient', 'auto')
+                .append('path')
+                .attr('d', 'M0,0L10,5L0,10Z')
+                .attr('fill', this.contrastColor(color, 'foreground'));
+        });
+
+        if (this.showImages) {
+            // one clip path serves every image as it is sized to the bounding box of the image
+            svgDefs.append('clipPath')
+                .attr('id', 'event-image-clip')
+                .attr('clipPathUnits', 'objectBoundingBox')
+                .append('circle')
+                .attr('cx', 0.5)
+                .attr('cy', 0.5)
+                .attr('r', 0.5);
+        }
     }
 
     private renderXAxisCirclesAndQuarters() {
-        let year, darkGrey = '#636363', lightGrey = '#868686', color = '#868686';
-        this.svg.selectAll('.x-axis-line-allticks .tick').insert('rect')
-            .attr('x', 0)
-            .attr('y', -25)
-            .attr('width', '25%')
-            .attr('height', 50)
-            .attr('fill', (d: Date, i) => {
-                if (i % 4 !== 0) {
-                    return color;
-                }
-                else {
-                    if (color === lightGrey) {
-                        color = darkGrey;
-                    }
-                    else {
-                        color = lightGrey;
-                    }
-                    return color;
-                }
-            });
+        let axis = this.settings.axis;
+        let [minDate, maxDate] = this.xScale.domain();
+        let [rangeStart, rangeEnd] = this.xScale.range();
+        let interval = this.tickLevel.bandInterval;
+
+        // bands are clipped to the visible range so they follow the scale while zooming
+        this.svg.insert('g', '.x-axis-line-allticks')
+            .attr('class', 'x-axis-bands')
+            .attr('transform', this.translate(20, this.layout.axisY))
+            .selectAll('rect')
+            .data(interval.range(interval.floor(minDate), maxDate))
+            .enter()
+            .append('rect')
+            .call(rects => this.placeRects(rects, (d: Date) => Math.max(rangeStart, this.xScale(d)), (d: Date) => {
+                let x0 = Math.max(rangeStart, this.xScale(d));
+                let x1 = Math.min(rangeEnd, this.xScale(interval.offset(d, 1)));
+                return Math.max(0, x1 - x0);
+            }, () => -25, () => 50))
+            .attr('fill', (d: Date) => this.contrastColor(fiscalYear(d, this.calendar) % 2 === 0 ? axis.bandColor : axis.alternateBandColor, 'background'))
+            .attr('stroke', this.highContrast ? this.highContrast.foreground : null);
 
         this.svg.selectAll('.x-axis-line-allticks .tick line')
-            .attr('stroke', '#ffffff')
+            .attr('stroke', this.contrastColor(axis.tickColor, 'foreground'))
             .attr('stroke-width', 4);
 
         this.svg.selectAll('.x-axis-line .tick').insert('circle')
             .attr('cx', 0)
             .attr('cy', 0)
-            .attr('r', 27)
-            .attr('stroke', '#525252')
+            .attr('r', axis.circleRadius)
+            .attr('stroke', this.contrastColor(axis.circleColor, 'foreground'))
             .attr('stroke-width', 4)
-            .attr('fill', '#ffffff');
-
-        this.svg.selectAll('.x-axis-line .tick text')
-            .attr('y', -5)
-            .attr('fill', '#000000').raise();
+            .attr('fill', this.contrastColor(axis.circleFill, 'background'));
+
+        let tickText = this.svg.selectAll('.x-axis-line .tick text')
+            .attr('fill', this.contrastColor(axis.labelColor, 'foreground')).raise();
+        if (this.isVertical) {
+            tickText
+                .attr('x', 0)
+                .attr('text-anchor', 'middle');
+        }
+        else {
+            tickText.attr('y', -5);
+        }
 
     }
 
-    private renderTimeRangeLines(gHeight, timelineData) {
-        this.svg.selectAll(".line")
-            .data(timelineData)
-            .enter()
-            .append("rect")
-            .attr("x", (d: any, i) => {
-                return this.xScale(d.EventStartDate) + 20;
-            })
-            .attr("width", '8px')
-            .attr("y", (d, i) => {
-                if (i % 2 === 0) {
-                    return this.yScale(-42);
-                } else {
-                    let count = Math.ceil(i / 2);
-                    if (count % 2 === 0) {
-                        return this.yScale(45);
-                    } else {
-                        return this.yScale(5);
-                    }
-                }
-            })
-            .attr("height", (d, i) => {
-                if (i % 2 === 0) {
-                    let count = i / 2;
-                    if (count % 2 === 0) {
-                        return gHeight - this.yScale(-45);
-                    }
-                    else {
-                        return gHeight - this.yScale(-85);
-                    }
-                } else {
-                    let count = Math.ceil(i / 2);
-                    if (count % 2 === 0) {
-                        return gHeight - this.yScale(-45);
-                    }
-                    else {
-                        return gHeight - this.yScale(-85);
-                    }
-                }
-            })
-            .style('fill', (d: any, i) => {
-                if (i % 2 === 0) {
-                    return 'url(#linearGradientTopToBottom' + d.Title.replace(/ /g, "") + ')';
-                }
-                else {
-                    return 'url(#linearGradientBottomToTop' + d.Title.replace(/ /g, "") + ')';
-                }
-            });
+    /**
+     * Returns a translation to a position given along and across the time axis.
+     */
+    private translate(t: number, c: number): string {
+        return this.isVertical ? 'translate(' + c + ' ' + t + ')' : 'translate(' + t + ' ' + c + ')';
+    }
 
-        this.svg.selectAll(".line")
-            .data(timelineData)
-            .enter()
-            .append("rect")
-            .attr("x", (d: any, i) => {
-                return this.xScale(d.EventEndDate) + 20;
-            })
-            .attr("width", '8px')
-            .attr("y", (d, i) => {
-                if (i % 2 === 0) {
-                    return this.yScale(-42);
-                } else {
-                    let count = Math.ceil(i / 2);
-                    if (count % 2 === 0) {
-                        return this.yScale(45);
-                    } else {
-                        return this.yScale(5);
-                    }
-                }
-            })
-            .attr("height", (d, i) => {
-                if (i % 2 === 0) {
-                    let count = i / 2;
-                    if (count % 2 === 0) {
-                        return gHeight - this.yScale(-45);
-                    }
-                    else {
-                        return gHeight - this.yScale(-85);
-                    }
-                } else {
-                    let count = Math.ceil(i / 2);
-                    if (count % 2 === 0) {
-                        return gHeight - this.yScale(-45);
+    /**
+     * Positions and sizes rects given along and across the time axis.
+     */
+    private placeRects(rects: Placeable<any>, t: (d) => number, tSize: (d) => number, c: (d) => number, cSize: (d) => number) {
+        let [x, y, width, height] = this.isVertical ? ['y', 'x', 'height', 'width'] : ['x', 'y', 'width', 'height'];
+        rects
+            .attr(x, t)
+            .attr(width, tSize)
+            .attr(y, c)
+            .attr(height, cSize);
+    }
+
+    /**
+     * Returns the dates the event is drawn at: its planned dates in the planned view, when
+     * it has them, and its actual dates otherwise.
+     */
+    private getDrawnDates(d: TimelineData): EventDates {
+        if (this.settings.plan.view === 'planned' && d.PlannedStartDate) {
+            return this.getPlannedDates(d);
+        }
+        return { start: d.EventStartDate, end: d.EventEndDate, type: d.EventType };
+    }
+
+    private getPlannedDates(d: TimelineData): EventDates {
+        let start = d.PlannedStartDate;
+        let end = d.PlannedEndDate;
+        return { start: start, end: end, type: start.getTime() === end.getTime() ? 'milestone' : 'range' };
+    }
+
+    // only the view with both dates draws the plan of an event, and only where it differs from the actual dates
+    private hasGhost(d: TimelineData): boolean {
+        return this.settings.plan.view === 'both' && !!d.PlannedStartDate
+            && (d.PlannedStartDate.getTime() !== d.EventStartDate.getTime() || d.PlannedEndDate.getTime() !== d.EventEndDate.getTime());
+    }
+
+    private getEventGeometry(d: TimelineData, dates: EventDates = this.getDrawnDates(d)): EventGeometry {
+        let x = this.xScale(dates.start) + 25;
+        let diff = Math.max(0, (this.xScale(dates.end) + 25) - x);
+        let shape = Visual.getEventShape(d.Glyph, dates.type, diff);
+        // range glyphs span exactly from the start to the end date
+        let isRange = shape === 'ellipse' || shape === 'pill' || shape === 'bar';
+        // in vertical orientation the text is upright and wraps to the width of a lane
+        let width = this.settings.eventText.width;
+        let textWidth = this.isVertical ? this.getLaneSpacing().lanePitch - 15 : isRange ? Math.max(width, diff * 0.75) : width;
+        let glyphs = this.settings.glyphs;
+        return {
+            shape: shape,
+            x: x,
+            cx: diff / 2,
+            rx: isRange ? diff / 2 : glyphs.circleRadius,
+            ry: shape === 'ellipse' ? glyphs.ellipseRadius : shape === 'bar' ? 30 : glyphs.circleRadius,
+            textX: diff / 2 - textWidth / 2,
+            textWidth: textWidth
+        };
+    }
+
+    private static getEventShape(glyph: EventGlyph, type: EventType, width: number): EventGlyph {
+        let isRangeGlyph = (g: EventGlyph) => g === 'ellipse' || g === 'pill' || g === 'bar';
+        if (glyph && !(type === 'milestone' && isRangeGlyph(glyph))) {
+            return glyph;
+        }
+        // ranges too narrow for their text keep the circle, centred between their dates
+        if (type === 'milestone' || width <= 90) {
+            return 'circle';
+        }
+        return type === 'ongoing' ? 'pill' : 'ellipse';
+    }
+
+    private getEventExtent(d: TimelineData): EventExtent {
+        let g = this.getEventGeometry(d);
+        let strokeWidth = this.getStrokeWidth(g.shape);
+        // upright text only takes its height along a vertical axis
+        let textX = this.isVertical ? g.cx - this.getEventTextHeight() / 2 : g.textX;
+        let textWidth = this.isVertical ? this.getEventTextHeight() : g.textWidth;
+        let extent = {
+            key: this.getEventKey(d),
+            x0: g.x + Math.min(g.cx - g.rx - strokeWidth / 2, textX),
+            x1: g.x + Math.max(g.cx + g.rx + strokeWidth / 2, textX + textWidth)
+        };
+        // the lane keeps room for the outline at the planned dates
+        if (this.hasGhost(d)) {
+            let p = this.getEventGeometry(d, this.getPlannedDates(d));
+            extent.x0 = Math.min(extent.x0, p.x + p.cx - p.rx - strokeWidth / 2);
+            extent.x1 = Math.max(extent.x1, p.x + p.cx + p.rx + strokeWidth / 2);
+        }
+        return extent;
+    }
+
+    private getStrokeWidth(shape: EventGlyph): number {
+        return shape === 'ellipse' ? this.settings.glyphs.ellipseStrokeWidth : this.settings.glyphs.circleStrokeWidth;
+    }
+
+    private getClusterExtent(c: EventCluster<TimelineData>): EventExtent {
+        return {
+            key: c.key,
+            x0: c.x - 47,
+            x1: c.x + 47
+        };
+    }
+
+    /**
+     * Keys every event by its Event ID, or by its row identity when the ID is missing or
+     * repeated, so that events which only differ in fields such as Category still get
+     * elements of their own.
+     */
+    private assignEventKeys() {
+        let idCounts = new Map<string, number>();
+        this.timelineData.forEach((d) => {
+            if (d.EventId !== null) {
+                idCounts.set(d.EventId, (idCounts.get(d.EventId) || 0) + 1);
+            }
+        });
+        this.eventKeys = new Map(this.timelineData.map((d): [TimelineData, string] =>
+            [d, d.EventId !== null && idCounts.get(d.EventId) === 1 ? 'id:' + d.EventId : 'row:' + d.selectionId.getKey()]));
+    }
+
+    private getEventKey(d: TimelineData): string {
+        return this.eventKeys.get(d);
+    }
+
+    private static isCluster(d: TimelineData | EventCluster<TimelineData>): d is EventCluster<TimelineData> {
+        return (<EventCluster<TimelineData>>d).events !== undefined;
+    }
+
+    /**
+     * Draws the today line and the reference lines and bands across the canvas, behind
+     * the axis and the events.
+     */
+    private renderReferenceLines(legendHeight, vpWidth, vpHeight) {
+        let lines = this.referenceLines.slice();
+        let references = this.settings.references;
+        if (references.showToday) {
+            lines.push({ label: references.todayLabel || this.localizer.getString('Visual_Today'), start: new Date(), end: null, color: references.todayColor });
+        }
+        let [rangeStart, rangeEnd] = this.xScale.range();
+        let [crossStart, crossEnd] = this.isVertical ? [0, vpWidth] : [this.getTitleHeight() + legendHeight, vpHeight];
+        let clamp = (date: Date) => Math.max(rangeStart, Math.min(rangeEnd, this.xScale(date))) + 20;
+        lines = lines.filter(line => this.xScale(line.end || line.start) >= rangeStart && this.xScale(line.start) <= rangeEnd);
+
+        let gReferences = this.svg.insert('g', '.x-axis-bands')
+            .attr('class', 'reference-lines');
+
+        gReferences.selectAll('.reference-band')
+            .data(lines.filter(line => !!line.end))
+            .enter()
+            .append('rect')
+            .attr('class', 'reference-band')
+            .call(rects => this.placeRects(rects, (line: ReferenceLine) => clamp(line.start),
+                (line: ReferenceLine) => clamp(line.end) - clamp(line.start),
+                () => crossStart, () => crossEnd - crossStart))
+            .attr('fill', (line: ReferenceLine) => this.contrastColor(line.color, 'foreground'));
+
+        gReferences.selectAll('.reference-line')
+            .data(lines.filter(line => !line.end))
+            .enter()
+            .append('rect')
+            .attr('class', 'reference-line')
+            .call(rects => this.placeRects(rects, (line: ReferenceLine) => clamp(line.start) - 1, () => 2,
+                () => crossStart, () => crossEnd - crossStart))
+            .attr('fill', (line: ReferenceLine) => this.contrastColor(line.color, 'foreground'));
+
+        gReferences.selectAll('text')
+            .data(lines.filter(line => !!line.label))
+            .enter()
+            .append('text')
+            .attr('class', 'reference-label')
+            .attr('transform', (line: ReferenceLine) => this.translate(clamp(line.start) + 4, crossStart + 4))
+            .attr('dominant-baseline', 'hanging')
+            .attr('fill', (line: ReferenceLine) => this.contrastColor(line.color, 'foreground'))
+            .text((line: ReferenceLine) => line.label);
+    }
+
+    private renderTimeRangeLines(timelineData) {
+        let dates = {
+            start: (d: TimelineData) => this.getDrawnDates(d).start,
+            end: (d: TimelineData) => this.getDrawnDates(d).end
+        };
+        Object.keys(dates).forEach((name) => {
+            let date = dates[name];
+            this.joinConnectors('line-' + name, timelineData, (d: TimelineData) => this.getEventKey(d),
+                rects => this.placeRects(rects, (d: TimelineData) => {
+                    return this.xScale(date(d)) + 20;
+                }, () => 8,
+                    (d: TimelineData) => this.layout.events.get(d).connectorY,
+                    (d: TimelineData) => this.layout.events.get(d).connectorHeight))
+                .classed('line', true)
+                .classed('dimmed', (d: TimelineData) => this.isDimmed(d))
+                .classed('past', (d: TimelineData) => this.isPast(d))
+                .style('fill', (d: TimelineData) => {
+                    let index = this.colorEntries.indexOf(this.colorMap.get(Visual.getColorKey(d)));
+                    if (this.layout.events.get(d).side === 'below') {
+                        return 'url(#linearGradientTopToBottom' + index + ')';
                     }
                     else {
-                        return gHeight - this.yScale(-85);
+                        return 'url(#linearGradientBottomToTop' + index + ')';
                     }
+                });
+        });
+    }
+
+    /**
+     * Returns the group that keeps the joined elements of one kind between renders.
+     */
+    private getLayer(name: string): d3.Selection<SVGGElement, any, any, any> {
+        let layer = this.svg.select<SVGGElement>('.event-layer.' + name);
+        return layer.empty() ? this.svg.append<SVGGElement>('g').attr('class', 'event-layer ' + name) : layer;
+    }
+
+    /**
+     * Returns a transition of the selection when this render is animated, or else the
+     * selection itself; callers only use the attr and style methods both have in common.
+     */
+    private transition<E extends d3.BaseType, D>(selection: d3.Selection<E, D, any, any>): Placeable<D> {
+        if (!this.animate) {
+            return selection;
+        }
+        return selection.transition().duration(Visual.animationDuration);
+    }
+
+    /**
+     * Removes the elements of an exit selection, fading them out first when animated. An
+     * element that comes back before it is gone is picked up again by the next join.
+     */
+    private fadeOut(exit: d3.Selection<any, any, any, any>) {
+        if (!this.animate) {
+            exit.remove();
+            return;
+        }
+        exit
+            .style('pointer-events', 'none')
+            .transition()
+            .duration(Visual.animationDuration)
+            .attr('opacity', 0)
+            .remove();
+    }
+
+    /**
+     * Joins the rects of one kind in the connector layer to the items on their key. New
+     * rects are placed and faded in, the others move to their new place.
+     */
+    private joinConnectors<T>(className: string, items: T[], keyOf: (d: T) => string,
+        place: (rects: Placeable<T>) => void): d3.Selection<SVGRectElement, T, any, any> {
+
+        let rects = this.getLayer('connectors')
+            .selectAll<SVGRectElement, T>('.' + className)
+            .data(items, keyOf);
+        this.fadeOut(rects.exit());
+
+        let entered = rects.enter()
+            .append<SVGRectElement>('rect')
+            .attr('class', className)
+            .attr('opacity', 0)
+            .call(place);
+
+        let merged = entered.merge(rects)
+            .interrupt()
+            .style('pointer-events', null);
+        this.transition(merged)
+            .attr('opacity', 1)
+            .call(place);
+        return merged;
+    }
+
+    /**
+     * Groups the events by their Group value, or by title when no Group field is bound.
+     * Swimlanes are ordered by their earliest event.
+     */
+    private getSwimlaneGroups(timelineData: TimelineData[]): { key: string, events: TimelineData[] }[] {
+        let groups = new Map<string, TimelineData[]>();
+        timelineData
+            .slice()
+            .sort((a, b) => this.getDrawnDates(a).start.getTime() - this.getDrawnDates(b).start.getTime())
+            .forEach((d) => {
+                let key = d.Group !== null ? d.Group : d.Title ? d.Title.toString() : '';
+                if (!groups.has(key)) {
+                    groups.set(key, []);
                 }
+                groups.get(key).push(d);
+            });
+        return Array.from(groups.entries()).map(([key, events]) => ({ key, events }));
+    }
+
+    private renderSwimlaneBands(swimlanes: SwimlaneLayout[], vpWidth) {
+        let gBands = this.svg.insert('g', ':first-child')
+            .attr('class', 'swimlane-bands');
+
+        gBands.selectAll('rect')
+            .data(swimlanes)
+            .enter()
+            .append('rect')
+            .attr('x', 0)
+            .attr('y', (lane: SwimlaneLayout) => lane.y)
+            .attr('width', vpWidth)
+            .attr('height', (lane: SwimlaneLayout) => lane.height)
+            .attr('fill', (lane: SwimlaneLayout, i) => this.contrastColor(i % 2 === 0 ? '#f4f4f4' : '#ffffff', 'background'))
+            .attr('stroke', this.highContrast ? this.highContrast.foreground : null);
+
+        // grid lines carry the axis ticks down through the swimlanes
+        if (swimlanes.length > 0) {
+            let last = swimlanes[swimlanes.length - 1];
+            gBands.selectAll('line')
+                .data(this.xScale.ticks(this.tickLevel.interval))
+                .enter()
+                .append('line')
+                .attr('class', 'swimlane-grid')
+                .attr('x1', (d: Date) => this.xScale(d) + 20)
+                .attr('x2', (d: Date) => this.xScale(d) + 20)
+                .attr('y1', swimlanes[0].y)
+                .attr('y2', last.y + last.height)
+                .attr('stroke', this.contrastColor('#d0d0d0', 'foreground'));
+        }
+    }
+
+    /**
+     * Draws the swimlane labels on top of the events so they stay in place while the
+     * timeline is zoomed or panned underneath them. Clicking a label collapses its lane.
+     */
+    private renderSwimlaneLabels(swimlanes: SwimlaneLayout[]) {
+        let width = this.swimlaneLabelWidth;
+        let toggle = (lane: SwimlaneLayout) => {
+            if (this.collapsedSwimlanes.has(lane.key)) {
+                this.collapsedSwimlanes.delete(lane.key);
+            }
+            else {
+                this.collapsedSwimlanes.add(lane.key);
+            }
+            this.render();
+        };
+
+        let gLabels = this.svg.selectAll('.swimlane-label')
+            .data(swimlanes)
+            .enter()
+            .append('g')
+            .attr('class', 'swimlane-label')
+            .attr('transform', (lane: SwimlaneLayout) => 'translate(0,' + lane.y + ')')
+            .attr('tabindex', 0)
+            .attr('role', 'button')
+            .attr('aria-expanded', (lane: SwimlaneLayout) => String(!lane.collapsed))
+            .attr('aria-label', (lane: SwimlaneLayout) => this.localizer.getString('Visual_SwimlaneLabel', lane.key, lane.count))
+            .on('click', (lane: SwimlaneLayout) => {
+                d3.event.stopPropagation();
+                toggle(lane);
             })
-            .style('fill', (d: any, i) => {
-                if (i % 2 === 0) {
-                    return 'url(#linearGradientTopToBottom' + d.Title.replace(/ /g, "") + ')';
-                }
-                else {
-                    return 'url(#linearGradientBottomToTop' + d.Title.replace(/ /g, "") + ')';
+            .on('keydown', (lane: SwimlaneLayout) => {
+                let e: KeyboardEvent = d3.event;
+                if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    toggle(lane);
                 }
             });
+
+        gLabels.append('rect')
+            .attr('width', width)
+            .attr('height', (lane: SwimlaneLayout) => lane.height)
+            .attr('fill', (lane: SwimlaneLayout, i) => this.contrastColor(i % 2 === 0 ? '#e8e8e8' : '#f4f4f4', 'background'))
+            .attr('stroke', this.contrastColor('#c8c8c8', 'foreground'));
+
+        gLabels.append('text')
+            .attr('x', 8)
+            .attr('y', defaultSwimlaneLayoutOptions.collapsedHeight / 2)
+            .attr('dominant-baseline', 'middle')
+            .attr('fill', this.contrastColor('#333333', 'foreground'))
+            .text((lane: SwimlaneLayout) => {
+                let label = (lane.collapsed ? '▸ ' : '▾ ') + lane.key;
+                return label.length > 20 ? label.slice(0, 19) + '…' : label;
+            })
+            .append('title')
+            .text((lane: SwimlaneLayout) => lane.key);
+
+        gLabels.append('text')
+            .attr('class', 'swimlane-count')
+            .attr('x', width - 8)
+            .attr('y', defaultSwimlaneLayoutOptions.collapsedHeight / 2)
+            .attr('dominant-baseline', 'middle')
+            .attr('text-anchor', 'end')
+            .attr('fill', this.contrastColor('#767676', 'foreground'))
+            .text((lane: SwimlaneLayout) => lane.count);
     }
 
-    private renderCircles(timelineData, titleColorData) {
+    /**
+     * Draws a dashed outline of each visible event at its planned dates, on the lane of
+     * the event, with an arrow from the outline to the event labelled with the slip.
+     */
+    private renderPlans(events: TimelineData[]) {
         let _this = this;
-        this.gbox = this.svg.selectAll(".box")
-            .data(timelineData)
-            .enter()
-            .append("g")
+        let ghosts = this.getLayer('plans')
+            .selectAll<SVGGElement, TimelineData>('.plan')
+            .data(events.filter(d => this.hasGhost(d)), (d: TimelineData) => this.getEventKey(d));
+        this.fadeOut(ghosts.exit());
+
+        let entered = ghosts.enter()
+            .append<SVGGElement>('g')
+            .attr('class', 'plan')
+            .attr('opacity', 0)
+            .attr('transform', (d: TimelineData) => this.getEventTransform(d));
+
+        let merged = entered.merge(ghosts)
+            .interrupt()
+            .style('pointer-events', null)
+            .classed('past', (d: TimelineData) => this.isPast(d))
+            .classed('dimmed', (d: TimelineData) => this.isDimmed(d));
+        // the outline is placed relative to the event, so it is redrawn whenever either moves
+        merged.selectAll('*').remove();
+        merged.each(function (d: TimelineData) {
+            _this.renderGhost(d3.select(this), d);
+        });
+        this.transition(merged)
+            .attr('opacity', 1)
+            .attr('transform', (d: TimelineData) => this.getEventTransform(d));
+    }
+
+    private renderGhost(ghost: d3.Selection<SVGGElement, TimelineData, any, any>, d: TimelineData) {
+        let g = this.getEventGeometry(d);
+        let p = this.getEventGeometry(d, this.getPlannedDates(d));
+        let color = this.getEventColor(d).medium;
+        // the group sits at the event, so the outline is offset by the distance between both starts
+        let dx = p.x - g.x;
+        let [planned, actual] = [dx + p.cx, g.cx];
+        let outline: d3.Selection<any, any, any, any>;
+        if (p.shape === 'circle') {
+            outline = ghost.append('circle')
+                .attr('cx', planned)
+                .attr('r', p.rx);
+        }
+        else if (p.shape === 'ellipse') {
+            outline = ghost.append('ellipse')
+                .attr('cx', planned)
+                .attr('cy', 2)
+                .attr('rx', p.rx)
+                .attr('ry', p.ry);
+        }
+        else if (p.shape === 'diamond') {
+            outline = ghost.append('path')
+                .attr('d', 'M' + planned + ',' + (-p.ry) + 'L' + (planned + p.rx) + ',0L' + planned + ',' + p.ry + 'L' + (planned - p.rx) + ',0Z');
+        }
+        else {
+            outline = ghost.append('rect')
+                .attr('x', dx)
+                .attr('y', -p.ry)
+                .attr('width', p.rx * 2)
+                .attr('height', p.ry * 2)
+                .attr('rx', p.shape === 'pill' ? Math.min(p.rx, p.ry) : 4);
+        }
+        outline
+            .attr('class', 'plan-ghost')
+            .attr('stroke', color);
+
+        // the arrow runs between the edges of both glyphs and is left out while they overlap
+        let direction = actual > planned ? 1 : -1;
+        let from = planned + direction * p.rx;
+        let to = actual - direction * g.rx;
+        if ((to - from) * direction > 8) {
+            ghost.append('line')
+                .attr('class', 'plan-slip')
+                .attr('x1', from)
+                .attr('x2', to)
+                .attr('stroke', this.contrastColor('#605e5c', 'foreground'))
+                .attr('marker-end', 'url(#dependency-arrow)');
+        }
+
+        // the label sits beyond both glyphs, upright in vertical orientation
+        let labelX = (planned + actual) / 2;
+        let labelY = -Math.max(p.ry, g.ry) - 6;
+        ghost.append('text')
+            .attr('class', 'plan-slip-label')
+            .attr('x', labelX)
+            .attr('y', labelY)
+            .attr('text-anchor', this.isVertical ? 'start' : 'middle')
+            .attr('dominant-baseline', this.isVertical ? 'middle' : null)
+            .attr('transform', this.isVertical ? 'rotate(-90 ' + labelX + ' ' + labelY + ')' : null)
+            .attr('fill', this.contrastColor('#605e5c', 'foreground'))
+            .text(formatSlip(Visual.getSlip(d), this.localizer));
+    }
+
+    private static getSlip(d: TimelineData): Slip {
+        return computeSlip(d.PlannedStartDate, d.PlannedEndDate, d.EventStartDate, d.EventEndDate, d.OpenEnded);
+    }
+
+    /**
+     * Joins the event groups to the visible events on their key, so an event that stays
+     * keeps its group, with its focus and hover state, and only moves. The glyph, image and
+     * text are redrawn for the groups whose content changed.
+     */
+    private renderEvents(timelineData: TimelineData[]) {
+        let _this = this;
+        let boxes = this.getLayer('events')
+            .selectAll<SVGElement, TimelineData>('.box')
+            .data(timelineData, (d: TimelineData) => this.getEventKey(d));
+        this.fadeOut(boxes.exit());
+
+        let entered = boxes.enter()
+            .append<SVGElement>('g')
+            .attr('class', 'box')
+            .attr('opacity', 0)
+            .attr('transform', (d: TimelineData) => this.getEventTransform(d));
+
+        this.gbox = entered.merge(boxes)
+            .interrupt()
+            .style('pointer-events', null)
+            .classed('ongoing', (d: TimelineData) => this.getDrawnDates(d).type === 'ongoing')
+            .classed('past', (d: TimelineData) => this.isPast(d))
             .attr('fill', '#ffffff')
-            .attr('transform', (d: any, i) => {
-                let y;
-                if ((i % 2) === 0) {
-                    let count = i / 2;
-                    if (count % 2 === 0) {
-                        y = this.yScale(-127);
-                    } else {
-                        y = this.yScale(-86);
-                    }
-                } else {
-                    let count = Math.ceil(i / 2);
-                    if (count % 2 === 0) {
-                        y = this.yScale(74);
-                    } else {
-                        y = this.yScale(34);
-                    }
-                }
-                return 'translate(' + (this.xScale(d.EventStartDate) + 25) + ' ' + y + ')';
+            .classed('dimmed', (d: TimelineData) => this.isDimmed(d));
+        this.transition(this.gbox)
+            .attr('opacity', 1)
+            .attr('transform', (d: TimelineData) => this.getEventTransform(d));
+
+        // groups that only moved keep their content, which keeps zooming and panning cheap
+        let settingsKey = JSON.stringify([this.settings.glyphs, this.settings.eventText, this.settings.timeline.circleBackground,
+            this.settings.links, this.settings.status, this.highContrast, this.showImages, this.isVertical]);
+        let changed = this.gbox.filter(function (d: TimelineData) {
+            let key = settingsKey + _this.getContentKey(d);
+            if (_this.contentKey.get(this) === key) {
+                return false;
+            }
+            _this.contentKey.set(this, key);
+            return true;
+        });
+        changed.selectAll('*').remove();
+
+        this.renderCircles(changed);
+
+        this.renderGlyphs(changed);
+
+        this.renderProgress(changed);
+
+        this.renderImages(changed);
+
+        this.renderText(changed);
+
+        this.renderStatus(changed);
+
+        this.gbox.on('mouseenter', function () {
+            d3.select(this).raise();
+        });
+
+        if (this.dependencies.length > 0) {
+            this.gbox
+                .on('mouseenter.chain', (d: TimelineData) => this.highlightChain(d))
+                .on('mouseleave.chain', () => this.highlightChain(null));
+        }
+
+        this.handleCircleOrEllipseClick();
+
+        this.bindAccessibility(timelineData);
+    }
+
+    /**
+     * Draws an arrow from the end of each predecessor to the start of the event depending
+     * on it. Only dependencies between two visible events outside clusters are drawn.
+     */
+    private renderDependencies(events: TimelineData[]) {
+        let visible = new Set(events);
+        let dependencies = this.dependencies.filter(dependency => visible.has(dependency.from) && visible.has(dependency.to));
+        let obstacles = new Map(events.map((d): [TimelineData, Obstacle] => [d, this.getEventObstacle(d)]));
+        let index = indexObstacles(Array.from(obstacles.values()));
+        let pathOf = (dependency: Dependency<TimelineData>) => this.getDependencyPath(dependency, obstacles, index);
+
+        let paths = this.getLayer('dependencies')
+            .selectAll<SVGPathElement, Dependency<TimelineData>>('.dependency')
+            .data(dependencies, (dependency: Dependency<TimelineData>) => dependency.key);
+        this.fadeOut(paths.exit());
+
+        let entered = paths.enter()
+            .append<SVGPathElement>('path')
+            .attr('class', 'dependency')
+            .attr('opacity', 0)
+            .attr('d', pathOf);
+        entered.append('title');
+
+        let merged = entered.merge(paths)
+            .interrupt()
+            .style('pointer-events', null)
+            .classed('violated', (dependency: Dependency<TimelineData>) => dependency.violated)
+            .attr('stroke', (dependency: Dependency<TimelineData>) => this.contrastColor(dependency.violated ? '#d13438' : '#605e5c', 'foreground'))
+            .attr('marker-end', (dependency: Dependency<TimelineData>) => 'url(#dependency-arrow' + (dependency.violated ? '-violated' : '') + ')');
+        merged.select('title')
+            .text((dependency: Dependency<TimelineData>) => {
+                let [from, to] = [dependency.from.Title, dependency.to.Title].map(title => title ? title.toString() : '');
+                return dependency.violated ? this.localizer.getString('Visual_DependencyViolated', to, from)
+                    : this.localizer.getString('Visual_DependsOn', to, from);
             });
+        this.transition(merged)
+            .attr('opacity', 1)
+            .attr('d', pathOf);
+    }
 
+    // the glyph of the event, with a margin, in coordinates along and across the axis
+    private getEventObstacle(d: TimelineData): Obstacle {
+        let g = this.getEventGeometry(d);
+        return { t: g.x + g.cx, c: this.layout.events.get(d).y, rt: g.rx + 4, rc: g.ry + 4 };
+    }
 
-        this.gbox.selectAll('g')
-            .data((d: any, i) => {
-                let diff = ((this.xScale(d.EventEndDate) + 25) - (this.xScale(d.EventStartDate) + 25));
-                if (d.EventStartDate.getTime() === d.EventEndDate.getTime() || diff <= 35) {
-                    return [d];
-                }
-                else {
-                    return [];
-                }
-            })
+    private getDependencyPath(dependency: Dependency<TimelineData>, obstacles: Map<TimelineData, Obstacle>, index: ObstacleIndex): string {
+        let from = obstacles.get(dependency.from);
+        let to = obstacles.get(dependency.to);
+        let points = routeDependency({ t: from.t + from.rt, c: from.c }, { t: to.t - to.rt, c: to.c }, index, [from, to])
+            .map((p: AxisPoint) => (this.isVertical ? [p.c, p.t] : [p.t, p.c]).join(','));
+        return 'M' + points[0] + 'C' + points.slice(1).join(' ');
+    }
+
+    /**
+     * Highlights the events the hovered event depends on and those depending on it, with
+     * the arrows between them, and dims the rest. Passing null ends the highlight.
+     */
+    private highlightChain(d: TimelineData) {
+        let chain = d ? collectChain(d, this.dependencies) : null;
+        // an event without dependencies has no chain to show
+        if (chain && chain.size === 1) {
+            chain = null;
+        }
+        this.svg.classed('chain-active', !!chain);
+        this.getLayer('events').selectAll('.box')
+            .classed('in-chain', (e: TimelineData) => !!chain && chain.has(e));
+        this.getLayer('dependencies').selectAll('.dependency')
+            .classed('in-chain', (dependency: Dependency<TimelineData>) => !!chain && chain.has(dependency.from) && chain.has(dependency.to));
+    }
+
+    private getEventTransform(d: TimelineData): string {
+        // glyphs are turned a quarter so their extent runs along a vertical axis
+        let transform = this.translate(this.getEventGeometry(d).x, this.layout.events.get(d).y);
+        return this.isVertical ? transform + ' rotate(90)' : transform;
+    }
+
+    // everything the content of an event group is drawn from, apart from the settings
+    private getContentKey(d: TimelineData): string {
+        let g = this.getEventGeometry(d);
+        return JSON.stringify([g.shape, g.cx, g.rx, g.ry, g.textWidth, this.getEventColor(d), d.Title, d.Description, d.URL, d.ImageUrl,
+            d.Progress, d.Status, d.Overdue]);
+    }
+
+    private renderCircles(boxes: d3.Selection<SVGElement, any, any, any>) {
+        let circleData = (d: TimelineData) => this.getEventGeometry(d).shape === 'circle' ? [d] : [];
+
+        boxes.selectAll('g')
+            .data(circleData)
             .enter()
             .append("circle")
-            .attr("cx", (d) => {
-                let diff = ((this.xScale(d.EventEndDate) + 25) - (this.xScale(d.EventStartDate) + 25));
-                if (d.EventStartDate.getTime() !== d.EventEndDate.getTime() && diff <= 35) {
-                    return diff / 2;
-                }
-                else {
-                    return 0;
-                }
-            })
+            .attr("cx", (d) => this.getEventGeometry(d).cx)
             .attr("cy", 0)
-            .attr('r', 40)
+            .attr('r', this.settings.glyphs.circleRadius - 5)
             .attr('stroke', (d: TimelineData) => {
-                let companyColor = titleColorData.find(c => d.Title === c.title);
-                return companyColor ? companyColor.color.light : '#000000';
+                return this.getEventColor(d).light;
             })
             .attr('stroke-width', 2)
             .attr('fill', (d) => {
-                return this.settings.timeline.circleBackground === 'opaque' ? '#ffffff' : 'rgba(0,0,0,0)';
+                return this.settings.timeline.circleBackground === 'opaque' ? this.contrastColor('#ffffff', 'background') : 'rgba(0,0,0,0)';
             });
 
-        this.gbox.selectAll('g')
-            .data((d: any, i) => {
-                let diff = ((this.xScale(d.EventEndDate) + 25) - (this.xScale(d.EventStartDate) + 25));
-                if (d.EventStartDate.getTime() === d.EventEndDate.getTime() || diff <= 35) {
-                    return [d];
-                }
-                else {
-                    return [];
-                }
-            })
+        boxes.selectAll('g')
+            .data(circleData)
             .enter()
             .append('a')
+            .attr('class', 'glyph-link')
             .append("circle")
-            .attr("cx", (d) => {
-                let diff = ((this.xScale(d.EventEndDate) + 25) - (this.xScale(d.EventStartDate) + 25));
-                if (d.EventStartDate.getTime() !== d.EventEndDate.getTime() && diff <= 35) {
-                    return diff / 2;
-                }
-                else {
-                    return 0;
-                }
-            })
+            .attr('class', 'glyph')
+            .attr("cx", (d) => this.getEventGeometry(d).cx)
             .attr("cy", 0)
-            .attr('r', 45)
+            .attr('r', (d) => this.getEventGeometry(d).rx)
             .attr('stroke', (d: TimelineData) => {
-                let companyColor = titleColorData.find(c => d.Title === c.title);
-                return companyColor ? companyColor.color.medium : '#000000';
+                return this.getEventColor(d).medium;
             })
-            .attr('stroke-width', 4)
+            .attr('stroke-width', this.settings.glyphs.circleStrokeWidth)
             .attr('fill', (d) => {
-                return this.settings.timeline.circleBackground === 'opaque' ? '#ffffff' : 'rgba(0,0,0,0)';
+                return this.settings.timeline.circleBackground === 'opaque' ? this.contrastColor('#ffffff', 'background') : 'rgba(0,0,0,0)';
             });
+    }
 
-        this.gbox.on('mouseenter', function () {
-            d3.select(this).raise();
+    private bindAccessibility(timelineData: TimelineData[]) {
+        let formatDate = (date: Date) => this.localizer.formatDate(date);
+        let order = timelineData.slice().sort((a, b) => {
+            let [da, db] = [this.getDrawnDates(a), this.getDrawnDates(b)];
+            return da.start.getTime() - db.start.getTime()
+                || da.end.getTime() - db.end.getTime();
         });
 
-        this.handleCircleOrEllipseClick();
+        this.gbox
+            .attr('tabindex', 0)
+            .attr('role', 'option')
+            .attr('aria-label', (d: TimelineData) => {
+                let dates = formatDate(d.EventStartDate);
+                if (d.EventEndDate.getTime() !== d.EventStartDate.getTime()) {
+                    dates = this.localizer.getString('Visual_DateRange', dates, formatDate(d.EventEndDate));
+                }
+                let description = d.Description ? sanitizeHtml(d.Description, { allowedTags: [], allowedAttributes: {} }) : '';
+                let overdue = d.Overdue && this.settings.status.flagOverdue ? this.localizer.getString('Visual_Overdue') : '';
+                return [d.Title, dates, d.Status, overdue, description].filter(part => !!part).join(', ');
+            })
+            .on('contextmenu', (d: TimelineData) => {
+                let e: MouseEvent = d3.event;
+                this.selectionManager.showContextMenu(d.selectionId, { x: e.clientX, y: e.clientY });
+                e.preventDefault();
+                e.stopPropagation();
+            })
+            .on('keydown', (d: TimelineData) => {
+                let e: KeyboardEvent = d3.event;
+                let step = 0;
+                switch (e.key) {
+                    case 'ArrowRight':
+                    case 'ArrowDown':
+                        step = 1;
+                        break;
+                    case 'ArrowLeft':
+                    case 'ArrowUp':
+                        step = -1;
+                        break;
+                    case 'Enter':
+                    case ' ':
+                        this.selection.select(d, e.ctrlKey || e.metaKey);
+                        break;
+                    case 'Escape':
+                        this.selection.clear();
+                        break;
+                    default:
+                        return;
+                }
+                e.preventDefault();
+                e.stopPropagation();
+                let next = order[order.indexOf(d) + step];
+                if (step !== 0 && next) {
+                    (<HTMLElement><Element>this.gbox.filter(x => x === next).node()).focus();
+                }
+            });
     }
 
     private handleCircleOrEllipseClick() {
-        let _this = this;
-        let currentSelection: TimelineData, currentElement, currentStroke, currentStrokeWidth;
-        this.gbox.on('click', (d: TimelineData, i, n) => {
-            if (currentSelection && currentSelection.selectionId === d.selectionId) {
-                _this.selectionManager.clear().then((ids: ISelectionId[]) => {
-                    let ellipse = d3.select(n[i]).select('ellipse');
-                    if (!ellipse.empty()) {
-                        d3.select(n[i]).select('ellipse')
-                            .attr('stroke', currentStroke)
-                            .attr('stroke-width', currentStrokeWidth);
-                    }
-                    else {
-                        d3.select(n[i]).select('a circle')
-                            .attr('stroke', currentStroke)
-                            .attr('stroke-width', currentStrokeWidth);
-                    }
-                    currentSelection = undefined;
-                });
-            }
-            else {
-                _this.selectionManager.select(d.selectionId).then((ids: ISelectionId[]) => {
-                    console.log('ids', ids);
-                    //debugger;
-                    let curelement = d3.select(currentElement).select('ellipse');
-                    if (!curelement.empty()) {
-                        d3.select(currentElement).select('ellipse')
-                            .attr('stroke', currentStroke)
-                            .attr('stroke-width', currentStrokeWidth);
-                    }
-                    else {
-                        d3.select(currentElement).select('a circle')
-                            .attr('stroke', currentStroke)
-                            .attr('stroke-width', currentStrokeWidth);
-                    }
-                    currentSelection = d;
-                    currentElement = n[i];
-                    let ellipse = d3.select(n[i]).select('ellipse');
-                    if (!ellipse.empty()) {
-                        currentStroke = d3.select(n[i]).select('ellipse').attr('stroke');
-                        currentStrokeWidth = d3.select(n[i]).select('ellipse').attr('stroke-width');
-                        d3.select(n[i]).select('ellipse')
-                            .attr('stroke', 'red')
-                            .attr('stroke-width', 5);
-                    }
-                    else {
-                        currentStroke = d3.select(n[i]).select('a circle').attr('stroke');
-                        currentStrokeWidth = d3.select(n[i]).select('a circle').attr('stroke-width');
-                        d3.select(n[i]).select('a circle')
-                            .attr('stroke', 'red')
-                            .attr('stroke-width', 5);
-                    }
-                });
-            }
+        this.gbox.on('click', (d: TimelineData) => {
+            let e: MouseEvent = d3.event;
+            e.stopPropagation();
+            this.selection.select(d, e.ctrlKey || e.metaKey);
         });
     }
 
-    private renderEllipses(titleColorData) {
-        this.gbox.selectAll('g')
-            .data((d: any, i) => {
-                let diff = ((this.xScale(d.EventEndDate) + 25) - (this.xScale(d.EventStartDate) + 25));
-                if (d.EventStartDate.getTime() !== d.EventEndDate.getTime() && diff > 35) {
-                    return [d];
-                }
-                else {
-                    return [];
-                }
-            })
+    private renderGlyphs(boxes: d3.Selection<SVGElement, any, any, any>) {
+        let fill = this.settings.timeline.circleBackground === 'opaque' ? this.contrastColor('#ffffff', 'background') : 'rgba(0,0,0,0)';
+        let glyphData = (shape: EventGlyph) => (d: TimelineData) => this.getEventGeometry(d).shape === shape ? [d] : [];
+
+        boxes.selectAll('g')
+            .data(glyphData('ellipse'))
             .enter()
+            .append('a')
+            .attr('class', 'glyph-link')
             .append('ellipse')
-            .attr("cx", (d: TimelineData, i) => {
-                let diff = ((this.xScale(d.EventEndDate) + 25) - (this.xScale(d.EventStartDate) + 25));
-                return diff / 2;
-            })
+            .attr('class', 'glyph')
+            .attr("cx", (d: TimelineData) => this.getEventGeometry(d).cx)
             .attr("cy", 2)
-            .attr("rx", (d: TimelineData, i) => {
-                return ((this.xScale(d.EventEndDate) + 25) - (this.xScale(d.EventStartDate) + 25));
-            })
-            .attr("ry", 50)
+            .attr("rx", (d: TimelineData) => this.getEventGeometry(d).rx)
+            .attr("ry", (d: TimelineData) => this.getEventGeometry(d).ry)
             .attr('stroke', (d: TimelineData) => {
-                let companyColor = titleColorData.find(c => d.Title === c.title);
-                return companyColor ? companyColor.color.light : '#000000';
+                return this.getEventColor(d).light;
             })
-            .attr('stroke-width', 2)
-            .attr('fill', (d) => {
-                return this.settings.timeline.circleBackground === 'opaque' ? '#ffffff' : 'rgba(0,0,0,0)';
+            .attr('stroke-width', this.settings.glyphs.ellipseStrokeWidth)
+            .attr('fill', fill);
+
+        ['pill', 'bar'].forEach((shape: EventGlyph) => {
+            boxes.selectAll('g')
+                .data(glyphData(shape))
+                .enter()
+                .append('a')
+                .attr('class', 'glyph-link')
+                .append('rect')
+                .attr('class', 'glyph')
+                .attr('x', 0)
+                .attr('y', (d: TimelineData) => -this.getEventGeometry(d).ry)
+                .attr('width', (d: TimelineData) => this.getEventGeometry(d).rx * 2)
+                .attr('height', (d: TimelineData) => this.getEventGeometry(d).ry * 2)
+                .attr('rx', (d: TimelineData) => {
+                    let g = this.getEventGeometry(d);
+                    return shape === 'pill' ? Math.min(g.rx, g.ry) : 4;
+                })
+                .attr('stroke', (d: TimelineData) => this.getEventColor(d).medium)
+                .attr('stroke-width', this.settings.glyphs.circleStrokeWidth)
+                .attr('fill', fill);
+        });
+
+        boxes.selectAll('g')
+            .data(glyphData('diamond'))
+            .enter()
+            .append('a')
+            .attr('class', 'glyph-link')
+            .append('path')
+            .attr('class', 'glyph')
+            .attr('d', (d: TimelineData) => {
+                let g = this.getEventGeometry(d);
+                return 'M' + g.cx + ',' + (-g.ry) + 'L' + (g.cx + g.rx) + ',0L' + g.cx + ',' + g.ry + 'L' + (g.cx - g.rx) + ',0Z';
+            })
+            .attr('stroke', (d: TimelineData) => this.getEventColor(d).medium)
+            .attr('stroke-width', this.settings.glyphs.circleStrokeWidth)
+            .attr('fill', fill);
+    }
+
+    /**
+     * Traces the outline of the glyph in the dark colour of the event, clockwise from the
+     * top, as far as the event has progressed.
+     */
+    private renderProgress(boxes: d3.Selection<SVGElement, any, any, any>) {
+        let _this = this;
+        boxes.filter((d: TimelineData) => d.Progress !== null).each(function (d: TimelineData) {
+            let glyph = <SVGGeometryElement>(<Element>this).querySelector('.glyph');
+            if (!glyph) {
+                return;
+            }
+            let ring = <SVGGeometryElement>glyph.cloneNode(false);
+            glyph.parentNode.insertBefore(ring, glyph.nextSibling);
+            let length = ring.getTotalLength();
+            let shape = _this.getEventGeometry(d).shape;
+            // circles and ellipses start their outline on the right, which the offset moves to the top
+            let start = shape === 'circle' || shape === 'ellipse' ? (_this.isVertical ? 0.5 : 0.25) * length : 0;
+            d3.select(ring)
+                .attr('class', 'progress-ring')
+                .attr('fill', 'none')
+                .attr('stroke', _this.contrastColor(_this.getEventColor(d).dark, 'foreground'))
+                .attr('stroke-dasharray', length * d.Progress + ' ' + length * (1 - d.Progress))
+                .attr('stroke-dashoffset', start);
+        });
+    }
+
+    /**
+     * Pins a badge in the colour of the event's status to the top right of its glyph, and
+     * a flag to the top left of an overdue event.
+     */
+    private renderStatus(boxes: d3.Selection<SVGElement, any, any, any>) {
+        let badges = boxes.selectAll('.status-badge')
+            .data((d: TimelineData) => this.getStatusBadges(d))
+            .enter()
+            .append('g')
+            .attr('class', 'status-badge')
+            .attr('transform', (b: StatusBadge) => 'translate(' + b.x + ',' + b.y + ')' + (this.isVertical ? ' rotate(-90)' : ''));
+
+        badges.append('circle')
+            .attr('r', 9)
+            .attr('fill', (b: StatusBadge) => this.contrastColor(b.color, 'foreground'))
+            .attr('stroke', this.contrastColor('#ffffff', 'background'));
+
+        badges.filter((b: StatusBadge) => !!b.icon)
+            .append('path')
+            .attr('d', (b: StatusBadge) => b.icon)
+            .attr('stroke', this.contrastColor('#ffffff', 'background'));
+    }
+
+    private getStatusBadges(d: TimelineData): StatusBadge[] {
+        let settings = this.settings.status;
+        let g = this.getEventGeometry(d);
+        // on the outline at 45 degrees for round glyphs, at the corners for the others
+        let factor = g.shape === 'diamond' ? 0.5 : g.shape === 'circle' || g.shape === 'ellipse' ? Math.SQRT1_2 : 1;
+        let [dx, dy] = [g.rx * factor, g.ry * factor];
+        // groups are turned a quarter in vertical orientation, so the corners are picked before turning
+        let [right, left] = this.isVertical ? [[-dx, -dy], [-dx, dy]] : [[dx, -dy], [-dx, -dy]];
+        let badges: StatusBadge[] = [];
+        if (d.Status) {
+            let status = parseStatus(d.Status);
+            let colors = { onTrack: settings.onTrackColor, atRisk: settings.atRiskColor, late: settings.lateColor, done: settings.doneColor };
+            badges.push({
+                x: g.cx + right[0],
+                y: right[1],
+                color: status ? colors[status] : settings.otherColor,
+                icon: status ? statusIcons[status] : null
             });
+        }
+        if (d.Overdue && settings.flagOverdue) {
+            badges.push({ x: g.cx + left[0], y: left[1], color: settings.overdueColor, icon: statusIcons.overdue });
+        }
+        return badges;
     }
 
-    private renderText(titleColorData) {
-        this.gbox.append("foreignObject")
+    private renderText(boxes: d3.Selection<SVGElement, any, any, any>) {
+        let text = this.settings.eventText;
+        let lineHeight = this.getEventTextLineHeight();
+        boxes.append("foreignObject")
             .html((d: TimelineData) => {
-                let companyColor = titleColorData.find(c => d.Title === c.title);
-                let color = companyColor ? companyColor.color.medium : '#000000';
+                let color = this.getEventColor(d).medium;
                 let company = '<div style="color:' + color + ';">' + (d.Title ? sanitizeHtml(d.Title.toString()) : '') + '</div>';
-                return '<div title="' + sanitizeHtml(d.Description) + '">' + company + sanitizeHtml(d.Description) + '</div>';
-            })
-            .attr('x', (d: TimelineData) => {
-                if (d.EventStartDate.getTime() === d.EventEndDate.getTime()) {
-                    return -35;
-                }
-                else {
-                    return -20;
-                }
+                // lines beyond the maximum are cut off by the height of the box
+                let style = 'line-height:' + lineHeight + 'px;max-height:' + this.getLabelLayout(d).textHeight + 'px;';
+                let dir = this.localizer.isRightToLeft ? ' dir="rtl"' : '';
+                return '<div class="event-text' + (text.wrap ? '' : ' no-wrap') + '"' + dir + ' style="' + style + '">' + company + sanitizeHtml(d.Description) + '</div>';
             })
-            .attr('y', '-50')
-            .attr('width', (d: TimelineData) => {
-                if (d.EventStartDate.getTime() === d.EventEndDate.getTime()
-                    || this.diff_years(d.EventEndDate, d.EventStartDate) < 1) {
-                    return 70;
-                }
-                else {
-                    let diff = ((this.xScale(d.EventEndDate) + 25) - (this.xScale(d.EventStartDate) + 25));
-                    return diff + diff / 2;
+            .attr('x', (d: TimelineData) => this.getLabelLayout(d).textX)
+            .attr('y', (d: TimelineData) => this.getLabelLayout(d).textY)
+            .attr('width', (d: TimelineData) => this.getLabelLayout(d).textWidth)
+            .attr('height', (d: TimelineData) => this.getLabelLayout(d).textHeight)
+            .attr('fill', this.contrastColor('#000000', 'foreground'))
+            .style('color', this.highContrast ? this.highContrast.foreground : null)
+            .attr('transform', (d: TimelineData) => this.getLabelTransform(d))
+            .attr('font-family', text.fontFamily)
+            .attr('font-size', Visual.pointsToPixels(text.fontSize))
+            .attr('font-weight', text.bold ? 'bold' : 'normal');
+    }
+
+    /**
+     * Returns the placement of the event text and of its image, relative to the centre of
+     * the glyph with the text upright.
+     */
+    private getLabelLayout(d: TimelineData): LabelLayout {
+        let g = this.getEventGeometry(d);
+        let height = this.getEventTextHeight();
+        let layout: LabelLayout = { textX: -g.textWidth / 2, textY: -height / 2, textWidth: g.textWidth, textHeight: height, image: null };
+        if (!this.showImages) {
+            return layout;
+        }
+        if (!this.isVertical && g.shape !== 'circle' && g.shape !== 'diamond' && g.textWidth >= 100) {
+            // wide glyphs show the image at their start with the text beside it
+            let r = Math.min(g.ry * 0.45, 22);
+            layout.image = { x: layout.textX + r, y: 0, r: r };
+            layout.textX += 2 * r + 6;
+            layout.textWidth -= 2 * r + 6;
+            return layout;
+        }
+        // other glyphs show the image above the text, which gives up lines to stay inside the glyph
+        let halfHeight = this.isVertical ? g.rx : g.ry;
+        let r = Math.min(Math.min(g.rx, g.ry) * 0.4, 20);
+        let textHeight = Math.max(this.getEventTextLineHeight(), Math.min(height, 2 * halfHeight - 2 * r - 10));
+        let top = -(2 * r + 4 + textHeight) / 2;
+        layout.image = { x: 0, y: top + r, r: r };
+        layout.textY = top + 2 * r + 4;
+        layout.textHeight = textHeight;
+        return layout;
+    }
+
+    // turns the labels back upright inside the rotated glyph of a vertical timeline
+    private getLabelTransform(d: TimelineData): string {
+        return 'translate(' + this.getEventGeometry(d).cx + ',0)' + (this.isVertical ? ' rotate(-90)' : '');
+    }
+
+    /**
+     * Draws the image of each event, clipped to a circle, or the initials of its title when
+     * the event has no image or the image cannot be loaded.
+     */
+    private renderImages(boxes: d3.Selection<SVGElement, any, any, any>) {
+        if (!this.showImages) {
+            return;
+        }
+        let _this = this;
+        let badges = boxes.append('g')
+            .attr('class', 'event-image')
+            .attr('transform', (d: TimelineData) => {
+                let image = this.getLabelLayout(d).image;
+                return this.getLabelTransform(d) + ' translate(' + image.x + ',' + image.y + ')';
+            });
+
+        badges.filter((d: TimelineData) => !d.ImageUrl)
+            .each(function (d: TimelineData) {
+                _this.renderInitials(d3.select(this), d);
+            });
+
+        badges.filter((d: TimelineData) => !!d.ImageUrl)
+            .append('image')
+            .attr('href', (d: TimelineData) => d.ImageUrl)
+            .attr('x', (d: TimelineData) => -this.getLabelLayout(d).image.r)
+            .attr('y', (d: TimelineData) => -this.getLabelLayout(d).image.r)
+            .attr('width', (d: TimelineData) => 2 * this.getLabelLayout(d).image.r)
+            .attr('height', (d: TimelineData) => 2 * this.getLabelLayout(d).image.r)
+            .attr('preserveAspectRatio', 'xMidYMid slice')
+            .attr('clip-path', 'url(#event-image-clip)')
+            .on('error', function (d: TimelineData) {
+                let badge = d3.select(<Element>(<Element>this).parentNode);
+                d3.select(this).remove();
+                _this.renderInitials(badge, d);
+            });
+    }
+
+    private renderInitials(badge: d3.Selection<any, any, any, any>, d: TimelineData) {
+        let r = this.getLabelLayout(d).image.r;
+        let color = this.getEventColor(d);
+        badge.append('circle')
+            .attr('r', r)
+            .attr('fill', this.contrastColor(color.light, 'background'))
+            .attr('stroke', color.medium)
+            .attr('stroke-width', 1);
+
+        badge.append('text')
+            .attr('class', 'initials')
+            .attr('text-anchor', 'middle')
+            .attr('dominant-baseline', 'central')
+            .attr('font-size', r * 0.8)
+            .attr('fill', this.contrastColor(color.dark, 'foreground'))
+            .text(Visual.getInitials(d.Title));
+    }
+
+    private static getInitials(title: String): string {
+        let words = (title ? title.toString() : '').trim().split(/\s+/).filter(word => !!word);
+        return words.slice(0, 2).map(word => word.charAt(0).toUpperCase()).join('');
+    }
+
+    private renderClusters(clusters: EventCluster<TimelineData>[]) {
+        let keyOf = (c: EventCluster<TimelineData>) => c.key;
+        let transform = (c: EventCluster<TimelineData>) => this.translate(c.x, this.layout.events.get(c).y);
+        let cboxes = this.getLayer('clusters')
+            .selectAll<SVGGElement, EventCluster<TimelineData>>('.cluster')
+            .data(clusters, keyOf);
+        this.fadeOut(cboxes.exit());
+
+        let entered = cboxes.enter()
+            .append<SVGGElement>('g')
+            .attr('class', 'cluster')
+            .attr('opacity', 0)
+            .attr('transform', transform);
+
+        entered.append('circle')
+            .attr('cx', 0)
+            .attr('cy', 0)
+            .attr('r', 45)
+            .attr('stroke-width', 4)
+            .attr('stroke-dasharray', '6 4');
+
+        // the key holds the number of events, so the text of a kept cluster stays the same
+        entered.append('text')
+            .attr('text-anchor', 'middle')
+            .attr('dominant-baseline', 'middle')
+            .attr('font-size', 14)
+            .attr('font-weight', 'bold')
+            .text((c: EventCluster<TimelineData>) => this.localizer.getString('Visual_ClusterLabel', c.events.length));
+
+        let cbox = entered.merge(cboxes)
+            .interrupt()
+            .style('pointer-events', null);
+        this.transition(cbox)
+            .attr('opacity', 1)
+            .attr('transform', transform);
+
+        cbox.select('circle')
+            .attr('stroke', this.contrastColor('#525252', 'foreground'))
+            .attr('fill', this.contrastColor('#ffffff', 'background'));
+
+        cbox.select('text')
+            .attr('fill', this.contrastColor('#000000', 'foreground'));
+
+        this.joinConnectors('cluster-line', clusters, keyOf,
+            rects => this.placeRects(rects, (c: EventCluster<TimelineData>) => c.x - 4, () => 8,
+                (c: EventCluster<TimelineData>) => this.layout.events.get(c).connectorY,
+                (c: EventCluster<TimelineData>) => this.layout.events.get(c).connectorHeight))
+            .attr('fill', this.contrastColor('#868686', 'foreground'));
+
+        cbox.on('click', (c: EventCluster<TimelineData>) => {
+            d3.event.stopPropagation();
+            this.expandedClusters.add(c.key);
+            this.render();
+        });
+    }
+
+    private renderNotice(message: string, vpWidth) {
+        let gNotice = this.svg.append('g')
+            .attr('class', 'notice')
+            .attr('transform', 'translate(' + (vpWidth - 10) + ',' + (this.getTitleHeight() + 10) + ')');
+
+        let text = gNotice.append('text')
+            .attr('text-anchor', 'end')
+            .attr('dominant-baseline', 'hanging')
+            .attr('y', 4)
+            .attr('x', -6)
+            .text(message);
+
+        let box = (<SVGTextElement>text.node()).getBBox();
+        gNotice.insert('rect', 'text')
+            .attr('x', box.x - 6)
+            .attr('y', 0)
+            .attr('width', box.width + 12)
+            .attr('height', box.height + 8);
+    }
+
+    /**
+     * Downloads the timeline as it is drawn, as SVG or PNG, or the events it was drawn
+     * from as CSV.
+     */
+    private exportTimeline(format: ExportFormat) {
+        let fileName = this.settings.export.fileName.trim() || 'timeline';
+        let exported: Promise<void>;
+        if (format === 'csv') {
+            exported = downloadFile(this.host, {
+                content: toCsv(this.timelineData, this.getCsvColumns()),
+                fileName: fileName,
+                fileType: 'csv',
+                description: this.localizer.getString('Visual_ExportEventsDescription')
+            }, this.localizer);
+        }
+        else {
+            exported = buildStandaloneSvg(<SVGSVGElement>this.svg.node(), this.getExportBanner(), this.localizer).then((svg) => {
+                if (format === 'svg') {
+                    return downloadFile(this.host, {
+                        content: svg.markup,
+                        fileName: fileName,
+                        fileType: 'svg',
+                        description: this.localizer.getString('Visual_ExportDescription')
+                    }, this.localizer);
                 }
-            })
-            .attr('height', 60)
-            .attr('fill', '#000000')
-            .attr('transform', 'translate(0,20)')
-            .attr('font-size', 10)
-            .attr('font-weight', 'bold');
+                // twice the size keeps the image sharp on slides and high density screens
+                return rasterizeSvg(svg, 2, this.contrastColor('#ffffff', 'background'), this.localizer).then(png => downloadFile(this.host, {
+                    content: png,
+                    fileName: fileName,
+                    fileType: 'png',
+                    description: this.localizer.getString('Visual_ExportDescription')
+                }, this.localizer));
+            });
+        }
+        exported.catch(e => renderErrorMessage(this.target, e, this.localizer, 'Visual_ExportFailed', true));
+    }
+
+    private getExportBanner(): ExportBanner {
+        if (this.bannerHeight === 0) {
+            return null;
+        }
+        let position: 'header' | 'footer' = this.header.style('display') !== 'none' ? 'header' : 'footer';
+        let image = <HTMLImageElement>(position === 'header' ? this.header : this.footer).select('img').node();
+        // a banner that failed to load is left out
+        return image && image.naturalWidth > 0 ? { image: image, position: position, height: this.bannerHeight } : null;
+    }
+
+    private getCsvColumns(): CsvColumn<TimelineData>[] {
+        let formatDate = d3.timeFormat('%Y-%m-%d');
+        let strings = this.localizer;
+        let text = (value: any) => value === null || value === undefined ? '' : value.toString();
+        let columns: CsvColumn<TimelineData>[] = [
+            { name: strings.getString('Visual_Title'), value: d => text(d.Title) },
+            { name: strings.getString('Visual_EventType'), value: d => d.EventType },
+            { name: strings.getString('Visual_StartDate'), value: d => formatDate(d.EventStartDate) },
+            { name: strings.getString('Visual_EndDate'), value: d => d.OpenEnded ? '' : formatDate(d.EventEndDate) },
+            { name: strings.getString('Visual_Category'), value: d => text(d.Category) },
+            { name: strings.getString('Visual_Group'), value: d => text(d.Group) },
+            { name: strings.getString('Visual_Description'), value: d => d.Description ? sanitizeHtml(d.Description, { allowedTags: [], allowedAttributes: {} }) : '' },
+            { name: strings.getString('Visual_Url'), value: d => text(d.URL) }
+        ];
+        if (this.hasPlans) {
+            columns.push(
+                { name: strings.getString('Visual_PlannedStart'), value: d => d.PlannedStartDate ? formatDate(d.PlannedStartDate) : '' },
+                { name: strings.getString('Visual_PlannedEnd'), value: d => d.PlannedEndDate ? formatDate(d.PlannedEndDate) : '' },
+                { name: strings.getString('Visual_SlipDays'), value: d => d.PlannedStartDate ? String(Visual.getSlip(d).days) : '' });
+        }
+        if (this.timelineData.some(d => d.Progress !== null || !!d.Status)) {
+            columns.push(
+                { name: strings.getString('Visual_ProgressPercent'), value: d => d.Progress !== null ? String(Math.round(d.Progress * 100)) : '' },
+                { name: strings.getString('Visual_Status'), value: d => text(d.Status) },
+                { name: strings.getString('Visual_Overdue'), value: d => d.Overdue ? 'true' : '' });
+        }
+        return columns;
+    }
+
+    private getTooltipData(d: TimelineData): VisualTooltipDataItem[] {
+        let strings = this.localizer;
+        let color = this.getEventColor(d).dark;
+        let items: VisualTooltipDataItem[] = [{
+            displayName: strings.getString('Visual_Title'),
+            value: d.Title ? d.Title.toString() : '',
+            color: color
+        }, {
+            displayName: strings.getString('Visual_StartDate'),
+            value: strings.formatDate(d.EventStartDate)
+        }, {
+            displayName: strings.getString('Visual_EndDate'),
+            value: d.OpenEnded ? strings.getString('Visual_Ongoing') : strings.formatDate(d.EventEndDate)
+        }, {
+            displayName: strings.getString('Visual_Duration'),
+            value: formatDuration(d.EventStartDate, d.EventEndDate, strings)
+        }];
+        if (d.PlannedStartDate) {
+            items.push({
+                displayName: strings.getString('Visual_PlannedStart'),
+                value: strings.formatDate(d.PlannedStartDate)
+            }, {
+                displayName: strings.getString('Visual_PlannedEnd'),
+                value: strings.formatDate(d.PlannedEndDate)
+            }, {
+                displayName: strings.getString('Visual_Slip'),
+                value: formatSlip(Visual.getSlip(d), strings)
+            });
+        }
+        if (d.Progress !== null) {
+            items.push({
+                displayName: strings.getString('Visual_Progress'),
+                value: strings.getString('Visual_Percent', Math.round(d.Progress * 100))
+            });
+        }
+        if (d.Status) {
+            items.push({
+                displayName: strings.getString('Visual_Status'),
+                value: d.Status
+            });
+        }
+        if (d.Overdue && this.settings.status.flagOverdue) {
+            items.push({
+                displayName: strings.getString('Visual_Overdue'),
+                value: formatDuration(d.EventEndDate, new Date(), strings)
+            });
+        }
+        if (d.Description) {
+            items.push({
+                displayName: strings.getString('Visual_Description'),
+                value: sanitizeHtml(d.Description, { allowedTags: [], allowedAttributes: {} })
+            });
+        }
+        return items.concat(d.Tooltips);
     }
 
     private handleHyperLinkClick() {
         let _this = this;
-        let baseurl = 'https://strategicanalysisinc.sharepoint.com';
         this.svg.selectAll('foreignObject a')
-            .on('click', function (e: Event) {
-                e = e || window.event;
-                let target: any = e.target || e.srcElement;
-                let link = d3.select(this).attr('href');
-                if (link.indexOf('http') === -1 || link.indexOf('http') > 0) {
-                    link = baseurl + link;
+            .on('click', function () {
+                let link = resolveLink(d3.select(this).attr('href'), _this.settings.links);
+                if (link) {
+                    _this.host.launchUrl(link);
                 }
-                _this.host.launchUrl(link);
                 d3.event.preventDefault();
+                d3.event.stopPropagation();
                 return false;
             });
+
+        // with a URL bound, a plain click on the circle or ellipse opens it; Ctrl-click still selects
+        this.gbox.selectAll('a.glyph-link')
+            .filter((d: TimelineData) => !!resolveLink(d.URL, this.settings.links))
+            .classed('event-link', true)
+            .on('click', (d: TimelineData) => {
+                let e: MouseEvent = d3.event;
+                if (e.ctrlKey || e.metaKey) {
+                    return;
+                }
+                this.host.launchUrl(resolveLink(d.URL, this.settings.links));
+                e.preventDefault();
+                e.stopPropagation();
+            });
     }
 
     private renderVisualBorder(vpWidth, vpHeight) {
@@ -768,17 +2297,19 @@ export class Visual implements IVisual {
             .attr('width', vpWidth)
             .attr('height', vpHeight)
             .attr('stroke-width', '2px')
-            .attr('stroke', '#333')
+            .attr('stroke', this.contrastColor('#333', 'foreground'))
             .attr('fill', 'transparent');
     }
 
     // converter to table data
-    public static CONVERTER(dataView: DataView, host: IVisualHost): TimelineData[] {
+    public static CONVERTER(dataView: DataView, host: IVisualHost, warnings: RowWarning[] = [],
+        localizer: Localizer = new Localizer(host.locale, null)): TimelineData[] {
         let resultData: TimelineData[] = [];
         let tableView = dataView.table;
         let _rows = tableView.rows;
         let _columns = tableView.columns;
-        let _titleIndex = -1, _typeIndex = -1, _descIndex = -1, _startDateIndex = -1, _endDateIndex = -1, _moaIndex = -1, _regionIndex, _productIndex;
+        let _titleIndex = -1, _typeIndex = -1, _descIndex = -1, _startDateIndex = -1, _endDateIndex = -1, _moaIndex = -1, _regionIndex, _productIndex, _categoryIndex = -1, _urlIndex = -1, _groupIndex = -1, _referenceIndex = -1, _imageIndex = -1, _eventIdIndex = -1, _dependsOnIndex = -1;
+        let _tooltipIndexes: number[] = [];
         for (let ti = 0; ti < _columns.length; ti++) {
             if (_columns[ti].roles.hasOwnProperty("Title")) {
                 _titleIndex = ti;
@@ -788,15 +2319,74 @@ export class Visual implements IVisual {
                 _startDateIndex = ti;
             } else if (_columns[ti].roles.hasOwnProperty("EventEndDate")) {
                 _endDateIndex = ti;
+            } else if (_columns[ti].roles.hasOwnProperty("Category")) {
+                _categoryIndex = ti;
+            } else if (_columns[ti].roles.hasOwnProperty("URL")) {
+                _urlIndex = ti;
+            } else if (_columns[ti].roles.hasOwnProperty("EventType")) {
+                _typeIndex = ti;
+            } else if (_columns[ti].roles.hasOwnProperty("Group")) {
+                _groupIndex = ti;
+            } else if (_columns[ti].roles.hasOwnProperty("ImageUrl")) {
+                _imageIndex = ti;
+            } else if (_columns[ti].roles.hasOwnProperty("EventId")) {
+                _eventIdIndex = ti;
+            } else if (_columns[ti].roles.hasOwnProperty("DependsOn")) {
+                _dependsOnIndex = ti;
+            }
+            if (_columns[ti].roles.hasOwnProperty("ReferenceDates") && _referenceIndex === -1) {
+                _referenceIndex = ti;
+            }
+            // a column can be bound to Tooltips as well as to one of the roles above
+            if (_columns[ti].roles.hasOwnProperty("Tooltips")) {
+                _tooltipIndexes.push(ti);
             }
         }
+        let [_plannedStartIndex, _plannedEndIndex, _progressIndex, _statusIndex] = ['PlannedStart', 'PlannedEnd', 'Progress', 'Status'].map(role => _columns.findIndex(column => column.roles.hasOwnProperty(role)));
+        let highlighted = Visual.getHighlightedValues(dataView);
+        let today = new Date();
         for (let i = 0; i < _rows.length; i++) {
             let row = _rows[i];
+            let title = row[_titleIndex] ? row[_titleIndex].toString() : null;
+            let startValue = _startDateIndex !== -1 ? row[_startDateIndex] : null;
+            let endValue = _endDateIndex !== -1 ? row[_endDateIndex] : null;
+            let startDate = parseDate(startValue, host.locale);
+            let endDate = parseDate(endValue, host.locale);
+            // rows that only carry reference dates are not events
+            if (!startDate && Visual.isMissing(startValue) && _referenceIndex !== -1 && !Visual.isMissing(row[_referenceIndex])) {
+                continue;
+            }
+            let invalid = Visual.getDateWarning(startValue, endValue, startDate, endDate, localizer);
+            if (invalid) {
+                warnings.push({ row: i, title: title, message: invalid });
+                continue;
+            }
+            // without an End Date field every event is a milestone; a blank end date in a bound field means ongoing
+            let openEnded = _endDateIndex !== -1 && !endDate;
+            if (_endDateIndex === -1) {
+                endDate = startDate;
+            }
+            else if (openEnded) {
+                endDate = new Date(Math.max(startDate.getTime(), today.getTime()));
+            }
             let dp = {
-                Title: row[_titleIndex] ? row[_titleIndex].toString() : null,
+                Title: title,
                 Description: row[_descIndex] ? row[_descIndex].toString() : null,
-                EventStartDate: row[_startDateIndex] ? new Date(Date.parse(row[_startDateIndex].toString())) : null,
-                EventEndDate: row[_endDateIndex] ? new Date(Date.parse(row[_endDateIndex].toString())) : null,
+                EventStartDate: startDate,
+                EventEndDate: endDate,
+                EventType: Visual.getEventType(startDate, endDate, openEnded, today),
+                OpenEnded: openEnded,
+                ...Visual.getPlannedDates(row, [_plannedStartIndex, _plannedEndIndex], host.locale),
+                ...Visual.getProgressAndStatus(row, [_progressIndex, _statusIndex], endDate, openEnded, today),
+                Glyph: _typeIndex !== -1 ? Visual.parseGlyph(row[_typeIndex]) : null,
+                Category: _categoryIndex !== -1 && row[_categoryIndex] !== null ? row[_categoryIndex].toString() : null,
+                Group: _groupIndex !== -1 ? (row[_groupIndex] !== null ? row[_groupIndex].toString() : '') : null,
+                EventId: _eventIdIndex !== -1 && !Visual.isMissing(row[_eventIdIndex]) ? row[_eventIdIndex].toString().trim() : null,
+                DependsOn: _dependsOnIndex !== -1 && !Visual.isMissing(row[_dependsOnIndex]) ? parseDependsOn(row[_dependsOnIndex].toString()) : [],
+                Tooltips: Visual.getTooltipValues(row, _columns, _tooltipIndexes, localizer),
+                Highlighted: !highlighted || highlighted.has(Visual.getValueKey(row[_categoryIndex !== -1 ? _categoryIndex : _titleIndex])),
+                URL: _urlIndex !== -1 && row[_urlIndex] !== null ? row[_urlIndex].toString() : null,
+                ImageUrl: _imageIndex !== -1 && row[_imageIndex] !== null ? resolveImageUrl(row[_imageIndex].toString()) : null,
                 selectionId: host.createSelectionIdBuilder()
                     .withTable(tableView, i)
                     .createSelectionId()
@@ -806,8 +2396,106 @@ export class Visual implements IVisual {
         return resultData;
     }
 
-    private static parseSettings(dataView: DataView): VisualSettings {
-        return <VisualSettings>VisualSettings.parse(dataView);
+    /**
+     * Returns why the dates of a row cannot be drawn, or null when they can.
+     */
+    private static getDateWarning(startValue: powerbi.PrimitiveValue, endValue: powerbi.PrimitiveValue, startDate: Date, endDate: Date,
+        localizer: Localizer): string {
+        if (!startDate) {
+            return Visual.isMissing(startValue) ? localizer.getString('Visual_StartDateMissing')
+                : localizer.getString('Visual_StartDateInvalid', String(startValue));
+        }
+        if (!endDate && !Visual.isMissing(endValue)) {
+            return localizer.getString('Visual_EndDateInvalid', String(endValue));
+        }
+        if (endDate && endDate.getTime() < startDate.getTime()) {
+            return localizer.getString('Visual_EndBeforeStart');
+        }
+        return null;
+    }
+
+    /**
+     * Returns the planned start and end of a row, or nulls when it has no planned start
+     * that can be read. A plan without an end is a milestone; a plan that ends before it
+     * starts is ignored.
+     */
+    private static getPlannedDates(row: powerbi.DataViewTableRow, [startIndex, endIndex]: number[], locale: string)
+        : Pick<TimelineData, 'PlannedStartDate' | 'PlannedEndDate'> {
+        let start = startIndex !== -1 ? parseDate(row[startIndex], locale) : null;
+        let end = endIndex !== -1 ? parseDate(row[endIndex], locale) : null;
+        if (!start || (end && end.getTime() < start.getTime())) {
+            return { PlannedStartDate: null, PlannedEndDate: null };
+        }
+        return { PlannedStartDate: start, PlannedEndDate: end || start };
+    }
+
+    private static getProgressAndStatus(row: powerbi.DataViewTableRow, [progressIndex, statusIndex]: number[], endDate: Date,
+        openEnded: boolean, today: Date): Pick<TimelineData, 'Progress' | 'Status' | 'Overdue'> {
+        let progress = progressIndex !== -1 ? parseProgress(row[progressIndex]) : null;
+        let status = statusIndex !== -1 && !Visual.isMissing(row[statusIndex]) ? row[statusIndex].toString().trim() : null;
+        return {
+            Progress: progress,
+            Status: status,
+            Overdue: isOverdue(endDate, openEnded, progress, parseStatus(status), today)
+        };
+    }
+
+    private static getTooltipValues(row: powerbi.DataViewTableRow, columns: powerbi.DataViewMetadataColumn[], indexes: number[],
+        localizer: Localizer): VisualTooltipDataItem[] {
+        return indexes.map((index): VisualTooltipDataItem => {
+            let value = row[index];
+            let text = value instanceof Date ? localizer.formatDate(value) : value !== null && value !== undefined ? value.toString() : '';
+            return {
+                displayName: columns[index].displayName,
+                value: text
+            };
+        });
+    }
+
+    private static getEventType(start: Date, end: Date, openEnded: boolean, today: Date): EventType {
+        if (openEnded || (start.getTime() <= today.getTime() && end.getTime() > today.getTime())) {
+            return 'ongoing';
+        }
+        return start.getTime() === end.getTime() ? 'milestone' : 'range';
+    }
+
+    private static parseGlyph(value: powerbi.PrimitiveValue): EventGlyph {
+        let glyph = value !== null && value !== undefined ? value.toString().trim().toLowerCase() : '';
+        return ['circle', 'diamond', 'pill', 'bar', 'ellipse'].indexOf(glyph) !== -1 ? <EventGlyph>glyph : null;
+    }
+
+    /**
+     * Returns the values of the Category field, or of the Title field when no category is
+     * bound, that are part of the data another visual highlights, or null when no highlight
+     * is applied. The host only adds highlights to the measures of the categorical view, so
+     * events are dimmed once a measure is bound to Progress or Tooltips.
+     */
+    private static getHighlightedValues(dataView: DataView): Set<string> {
+        let categorical = dataView.categorical;
+        let columns = categorical && categorical.values ? categorical.values.filter(v => !!v.highlights) : [];
+        if (columns.length === 0 || !categorical.categories) {
+            return null;
+        }
+        let values = categorical.categories[0].values.filter((value, i) => columns.some(c => c.highlights[i] !== null));
+        return new Set(values.map(value => Visual.getValueKey(value)));
+    }
+
+    private static getValueKey(value: powerbi.PrimitiveValue): string {
+        return value === null || value === undefined ? null : value.toString();
+    }
+
+    private static isMissing(value: powerbi.PrimitiveValue): boolean {
+        return value === null || value === undefined || value === '';
+    }
+
+    // settings migrated from legacy values are saved once, so a later change of the layout keeps the banner in place
+    private parseSettings(dataView: DataView): VisualSettings {
+        let settings = <VisualSettings>VisualSettings.parse(dataView);
+        let migrated = migrateSettings(settings, dataView && dataView.metadata && dataView.metadata.objects);
+        if (migrated) {
+            this.host.persistProperties({ merge: [migrated] });
+        }
+        return validateSettings(settings);
     }
 
     /**
@@ -816,12 +2504,22 @@ export class Visual implements IVisual {
      *
      */
     public enumerateObjectInstances(options: EnumerateVisualObjectInstancesOptions): VisualObjectInstance[] | VisualObjectInstanceEnumerationObject {
+        if (options.objectName === 'dataPoint') {
+            return this.colorEntries.filter(c => c.selectionId !== null).map((c): VisualObjectInstance => {
+                return {
+                    objectName: options.objectName,
+                    displayName: c.key,
+                    properties: {
+                        fill: {
+                            solid: {
+                                color: d3.color(c.color.dark).hex()
+                            }
+                        }
+                    },
+                    selector: c.selectionId.getSelector()
+                };
+            });
+        }
         return VisualSettings.enumerateObjectInstances(this.settings || VisualSettings.getDefault(), options);
     }
-
-    private diff_years(dt2, dt1) {
-        let diff = (dt2.getTime() - dt1.getTime()) / 1000;
-        diff /= (60 * 60 * 24);
-        return Math.abs(Math.round(diff / 365.25));
-    }
 }
\ No newline at end of file
@@ -0,0 +1,130 @@
+/*
+ *  Power BI Visualizations
+ *
+ *  Copyright (c) Microsoft Corporation
+ *  All rights reserved.
+ *  MIT License
+ *
+ *  Permission is hereby granted, free of charge, to any person obtaining a copy
+ *  of this software and associated documentation files (the ""Software""), to deal
+ *  in the Software without restriction, including without limitation the rights
+ *  to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ *  copies of the Software, and to permit persons to whom the Software is
+ *  furnished to do so, subject to the following conditions:
+ *
+ *  The above copyright notice and this permission notice shall be included in
+ *  all copies or substantial portions of the Software.
+ *
+ *  THE SOFTWARE IS PROVIDED *AS IS*, WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ *  IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ *  FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ *  AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ *  LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ *  OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN
+ *  THE SOFTWARE.
+ */
+
+"use strict";
+
+import * as d3 from 'd3';
+import { Localizer, StringKey } from "./localization";
+
+export interface RowWarning {
+    // zero-based index of the row in the table data view
+    row: number;
+    title: string;
+    message: string;
+}
+
+const maxListedWarnings = 10;
+
+/**
+ * Lists the rows that were left out of the timeline in a collapsible panel on top of
+ * the visual. The panel does not block the timeline and can be dismissed.
+ */
+export function renderWarningPanel(
+    container: d3.Selection<HTMLElement, any, any, any>,
+    warnings: RowWarning[],
+    localizer: Localizer,
+    onDismiss: () => void) {
+
+    container.selectAll('.warning-panel').remove();
+    if (warnings.length === 0) {
+        return;
+    }
+
+    let panel = container.append('div')
+        .attr('class', 'warning-panel')
+        .attr('role', 'status');
+
+    let summary = panel.append('div')
+        .attr('class', 'warning-summary');
+
+    summary.append('span')
+        .text(localizer.getString(warnings.length === 1 ? 'Visual_RowSkipped' : 'Visual_RowsSkipped', warnings.length));
+
+    summary.append('button')
+        .attr('class', 'warning-toggle')
+        .text(localizer.getString('Visual_Details'))
+        .on('click', () => {
+            panel.classed('expanded', !panel.classed('expanded'));
+        });
+
+    summary.append('button')
+        .attr('class', 'warning-dismiss')
+        .attr('aria-label', localizer.getString('Visual_Dismiss'))
+        .text('×')
+        .on('click', () => {
+            panel.remove();
+            onDismiss();
+        });
+
+    let list = panel.append('ul')
+        .attr('class', 'warning-list');
+
+    list.selectAll('li')
+        .data(warnings.slice(0, maxListedWarnings))
+        .enter()
+        .append('li')
+        .text((w: RowWarning) => w.title
+            ? localizer.getString('Visual_RowWarningWithTitle', w.row + 1, w.title, w.message)
+            : localizer.getString('Visual_RowWarning', w.row + 1, w.message));
+
+    if (warnings.length > maxListedWarnings) {
+        list.append('li')
+            .text(localizer.getString('Visual_MoreWarnings', warnings.length - maxListedWarnings));
+    }
+}
+
+/**
+ * Shows a message on top of the visual for an error that stopped it from rendering. An
+ * error of an action such as an export passes its own title and can be dismissed.
+ */
+export function renderErrorMessage(
+    container: d3.Selection<HTMLElement, any, any, any>,
+    error: any,
+    localizer: Localizer,
+    title: StringKey = 'Visual_ErrorTitle',
+    dismissible = false) {
+
+    container.selectAll('.error-message').remove();
+    let message = container.append('div')
+        .attr('class', 'error-message')
+        .attr('role', 'alert');
+
+    let heading = message.append('div')
+        .attr('class', 'error-title')
+        .text(localizer.getString(title));
+
+    if (dismissible) {
+        heading.append('button')
+            .attr('class', 'error-dismiss')
+            .attr('aria-label', localizer.getString('Visual_Dismiss'))
+            .text('×')
+            .on('click', () => message.remove());
+    }
+
+    message.append('div')
+        .attr('class', 'error-detail')
+        .text(error && error.message ? error.message : String(error));
+}